@@ -3,12 +3,88 @@
 
 import { mkdirSync, writeFileSync } from "node:fs";
 import path from "node:path";
-import type { StageMetadata } from "./export.js";
+import type { StageMetadata, UpstreamStage } from "./export.js";
+import { schemaToType, toTypeName } from "./schema-types.js";
+
+export type ServerTransport = "http" | "stdio";
+export type ExportLang = "js" | "ts";
+export type TransformErrorPolicy = "fail" | "passthrough" | "fallback";
+export type SandboxBackend = "vm" | "worker" | "process";
+
+export interface CodegenOptions {
+  transport?: ServerTransport;            // Default transport of the exported server (default: http)
+  lang?: ExportLang;                      // Output language of the project (default: js)
+  transformErrors?: TransformErrorPolicy; // Default policy for mod transform errors (default: fail)
+  sandbox?: SandboxBackend;               // Where generated code runs (default: process)
+  secrets?: string[];                     // Secret names to declare in addition to the boot stage's
+  cache?: CacheOptions;                   // Response cache (default: off)
+  outbound?: OutboundOptions;             // Outbound rate limits and retries for fetch
+  networkPolicy?: NetworkPolicy;          // Outbound policy for network tools (default: boot whitelist)
+  limits?: ToolLimits;                    // Default per-tool limits (see DEFAULT_TOOL_LIMITS)
+  toolLimits?: Record<string, ToolLimits>; // Overrides for individual tools, by exposed name
+  oauth?: OAuthOptions;                   // Accept OAuth access tokens (default: API keys only)
+  allowedOrigins?: string[];              // Browser origins allowed to call the server (default: none)
+  otlpEndpoint?: string;                  // OTLP/HTTP collector to export traces to (default: off)
+  sessions?: boolean;                     // Stateful Streamable HTTP sessions (default: stateless)
+  upstreamEnv?: string[];                 // Env vars passed to a stdio upstream besides the SDK defaults
+}
+
+export interface ToolLimits {
+  timeoutMs?: number;        // Wall-clock limit per call, async work included
+  maxConcurrency?: number;   // Concurrent calls per tool (0 = unlimited)
+  maxResponseBytes?: number; // Size cap on the serialized result (0 = unlimited)
+}
+
+export interface CacheOptions {
+  ttlSeconds?: number;            // TTL for every tool (0 = no caching)
+  tools?: Record<string, number>; // Per-tool TTLs in seconds, overriding ttlSeconds
+  maxEntries?: number;            // In-memory LRU size (default: 1000)
+}
+
+export interface RateLimit {
+  rate: number;   // Requests per second
+  burst?: number; // Bucket size (default: max(1, rate))
+}
+
+export interface OutboundOptions {
+  rateLimits?: Record<string, RateLimit>; // By domain (covering subdomains); "*" for any other host
+  retries?: number;                       // Retries for idempotent requests (default: 2)
+}
+
+// A network rule matches a request when every field it sets matches
+export interface NetworkRule {
+  host?: string;        // Domain, also matching its subdomains; "*" for any host
+  schemes?: string[];   // e.g. ["https"]
+  methods?: string[];   // e.g. ["GET", "HEAD"]
+  ports?: number[];
+  pathPrefix?: string;
+}
+
+export interface NetworkPolicy {
+  allow?: NetworkRule[];  // Default: one rule per boot whitelist domain
+  deny?: NetworkRule[];
+  blockPrivate?: boolean; // Refuse private, loopback and link-local addresses (default: true)
+}
+
+// OAuth resource-server settings; the server accepts JWT access tokens from the issuer
+export interface OAuthOptions {
+  issuer: string;                        // Authorization server issuer URL
+  audience?: string;                     // This server's URL, required in the token's aud
+  jwksUri?: string;                      // Default: discovered from the issuer's metadata
+  toolScopes?: Record<string, string[]>; // Scopes a token needs per tool, by exposed name
+}
+
+export const DEFAULT_TOOL_LIMITS: Required<ToolLimits> = {
+  timeoutMs: 30000,
+  maxConcurrency: 16,
+  maxResponseBytes: 5 * 1024 * 1024,
+};
 
 interface BootTool {
   name: string;
   description: string;
   input_schema: Record<string, unknown>;
+  output_schema?: Record<string, unknown>;
   handler_code: string;
   needs_network: boolean;
 }
@@ -17,6 +93,7 @@ interface PassThroughTool {
   exposed_name: string;
   upstream_name: string;
   exposed_schema: Record<string, unknown>;
+  output_schema?: Record<string, unknown>;
   description?: string;
   input_transform_code: string | null;
   output_transform_code: string | null;
@@ -26,6 +103,7 @@ interface SyntheticTool {
   name: string;
   description: string;
   input_schema: Record<string, unknown>;
+  output_schema?: Record<string, unknown>;
   orchestration_code: string;
   upstream_tools_used: string[];
 }
@@ -36,9 +114,51 @@ interface UIResource {
   html: string;
 }
 
+interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// Message text may hold {{argument}} placeholders, filled in by prompts/get
+interface StagePrompt {
+  name: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  messages: Array<{ role: "user" | "assistant"; text: string }>;
+}
+
+interface StageResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mime_type?: string;
+  text?: string;
+  blob?: string;          // Base64 binary contents, instead of text
+}
+
+// Resources addressed by an RFC 6570 template ({var} and {+var} expressions).
+// handler_code runs in the sandbox with the template variables as `args` and the
+// requested `uri`, and returns text or { text | blob, mime_type }.
+interface StageResourceTemplate {
+  name: string;
+  uri_template: string;
+  description?: string;
+  mime_type?: string;
+  handler_code: string;
+}
+
+// MCP prompts and resources any stage may serve besides its tools
+interface StagePromptsAndResources extends StageMetadata {
+  prompts?: StagePrompt[];
+  resources?: StageResource[];
+  resource_templates?: StageResourceTemplate[];
+}
+
 interface BootStage extends StageMetadata {
   stage: "boot";
   whitelist_domains: string[];
+  secrets?: string[];     // Names of secrets (env vars) the handlers read from \`secrets\`
   tools: BootTool[];
 }
 
@@ -66,8 +186,84 @@ function writeText(filePath: string, content: string): void {
   writeFileSync(filePath, content);
 }
 
-function generatePackageJson(stages: StageMetadata[]): object {
+// Mod stages in pipeline order (innermost first), as returned by crawlPipeline
+function getModStages(stages: StageMetadata[]): ModStage[] {
+  return stages.filter(s => s.stage === "mod") as ModStage[];
+}
+
+// Relative directory for a mod stage's files. A single mod stage keeps the flat
+// layout; stacked mod stages each get a numbered subdirectory to avoid collisions.
+function modFileDir(base: string, index: number, modCount: number): string {
+  return modCount > 1 ? path.posix.join(base, `mod${index + 1}`) : base;
+}
+
+// Prompts, resources and resource templates of all stages. An outer stage replaces
+// an inner one's prompt or template of the same name and resource of the same URI.
+function collectPromptsAndResources(stages: StageMetadata[]): {
+  prompts: StagePrompt[];
+  resources: StageResource[];
+  templates: StageResourceTemplate[];
+} {
+  const prompts = new Map<string, StagePrompt>();
+  const resources = new Map<string, StageResource>();
+  const templates = new Map<string, StageResourceTemplate>();
+  for (const stage of stages as StagePromptsAndResources[]) {
+    for (const prompt of stage.prompts ?? []) prompts.set(prompt.name, prompt);
+    for (const resource of stage.resources ?? []) resources.set(resource.uri, resource);
+    for (const template of stage.resource_templates ?? []) templates.set(template.name, template);
+  }
+  return {
+    prompts: Array.from(prompts.values()),
+    resources: Array.from(resources.values()),
+    templates: Array.from(templates.values()),
+  };
+}
+
+function hasTransforms(tool: PassThroughTool): boolean {
+  return Boolean(tool.input_transform_code || tool.output_transform_code);
+}
+
+// Secrets declared by the boot stage and the export options, deduplicated
+function declaredSecrets(stages: StageMetadata[], options: CodegenOptions): string[] {
+  const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
+  return Array.from(new Set([...(boot?.secrets ?? []), ...(options.secrets ?? [])]));
+}
+
+function generatePackageJson(stages: StageMetadata[], options: CodegenOptions): object {
   const stageNames = stages.map(s => s.stage).join("+");
+  // Network tools connect through an undici Agent that checks resolved addresses
+  const dependencies = {
+    "@modelcontextprotocol/sdk": "^1.12.1",
+    ...(needsNetwork(stages) ? { undici: "^6.21.0" } : {}),
+  };
+  // The process sandbox needs Node's permission model (20) and the fetch proxy AbortSignal.any (20.3)
+  const engines = { node: ">=20.3" };
+  const secrets = declaredSecrets(stages, options);
+  // Deploy tooling reads the declared secrets from here
+  const metadata = secrets.length > 0 ? { mcpknife: { secrets } } : {};
+  if (options.lang === "ts") {
+    return {
+      name: "exported-mcp-server",
+      version: "1.0.0",
+      description: `Standalone MCP server exported from mcpknife pipeline (${stageNames})`,
+      type: "module",
+      main: "server.js",
+      scripts: {
+        build: "tsc",
+        typecheck: "tsc --noEmit",
+        start: "node server.js",
+        "start:http": "node server.js --http",
+        "start:stdio": "node server.js --stdio",
+      },
+      engines,
+      dependencies,
+      devDependencies: {
+        "@types/node": "^20.0.0",
+        typescript: "^5.4.0",
+      },
+      ...metadata,
+    };
+  }
   return {
     name: "exported-mcp-server",
     version: "1.0.0",
@@ -76,14 +272,35 @@ function generatePackageJson(stages: StageMetadata[]): object {
     main: "server.js",
     scripts: {
       start: "node server.js",
+      "start:http": "node server.js --http",
+      "start:stdio": "node server.js --stdio",
     },
-    dependencies: {
-      "@modelcontextprotocol/sdk": "^1.12.1",
-    },
+    engines,
+    dependencies,
+    ...metadata,
   };
 }
 
-function generateReadme(stages: StageMetadata[]): string {
+function generateReadme(stages: StageMetadata[], options: CodegenOptions): string {
+  const transport = options.transport ?? "http";
+  const ts = options.lang === "ts";
+  const mods = getModStages(stages);
+  const transformErrors = options.transformErrors ?? "fail";
+  const limits = { ...DEFAULT_TOOL_LIMITS, ...options.limits };
+  const toolLimitNames = Object.keys(options.toolLimits ?? {});
+  const secrets = declaredSecrets(stages, options);
+  const cachedTools = Object.entries(options.cache?.tools ?? {}).filter(([, ttl]) => ttl > 0).map(([n]) => `\`${n}\``);
+  const cacheDescription = options.cache?.ttlSeconds
+    ? `Tool results are cached for ${options.cache.ttlSeconds}s.`
+    : cachedTools.length > 0
+      ? `Results of ${cachedTools.join(", ")} are cached.`
+      : "Response caching is off.";
+  const sandboxDescription = {
+    vm: "the server process (`vm`)",
+    worker: "a worker thread per call (`worker`)",
+    process: "a child process per call (`process`)",
+  }[options.sandbox ?? "process"];
+  const { prompts, resources, templates } = collectPromptsAndResources(stages);
   const lines = [
     "# Exported MCP Server",
     "",
@@ -91,13 +308,203 @@ function generateReadme(stages: StageMetadata[]): string {
     "",
     "## Quick Start",
     "",
+    "Needs Node.js 20.3 or later.",
+    "",
     "```bash",
     "npm install",
+    ...(ts ? ["npm run build"] : []),
     "node server.js",
     "```",
     "",
-    `The server listens on \`http://localhost:\${PORT}/mcp\` (default PORT=8000).`,
+    ...(ts ? [
+      "This is a TypeScript project. Sources live in `src/` and compile to `dist/`;",
+      "`server.js` runs the compiled build. Tool input types derived from each tool's",
+      "JSON Schema are in `src/types.ts`, and every handler, orchestration and",
+      "transform is a typed module. At runtime each module's compiled source still",
+      "runs inside the vm sandbox, so it must not import anything or rely on values",
+      "outside its own function body. `tsconfig.json` starts with `strict` off",
+      "because the bodies are generated code; tighten it as you review them.",
+      "",
+    ] : []),
+    `The default transport is ${transport}. Over HTTP the server listens on`,
+    `\`http://localhost:\${PORT}/mcp\` (default PORT=8000); over stdio it speaks MCP on`,
+    "stdin/stdout, so it can be launched as a local command by desktop clients.",
+    "Pick a transport with `--http` / `--stdio` or the `MCP_TRANSPORT` environment variable:",
+    "",
+    "```bash",
+    "node server.js --stdio",
+    "MCP_TRANSPORT=http PORT=8080 node server.js",
+    "```",
+    "",
+    ...(secrets.length > 0 ? [
+      "## Secrets",
+      "",
+      "Set these environment variables before starting the server. Sandboxed code reads them",
+      "from the `secrets` object (e.g. `secrets." + secrets[0] + "`). With the `process` sandbox no other",
+      "environment is visible to it; `vm` and `worker` code can reach the server's environment.",
+      "",
+      ...secrets.map(name => `- \`${name}\``),
+      "",
+    ] : []),
+    "## Runtime Behavior",
+    "",
+    "- Tool arguments are validated against each tool's `inputSchema` before dispatch.",
+    "  Invalid calls return an `isError` result whose `_meta.error.field` names the offending field.",
+    "- Handlers, orchestrations, mod transforms and resource templates all run in the same sandbox.",
+    `  This export runs it in ${sandboxDescription}. Set \`MCP_SANDBOX\` to`,
+    "  `process` (a child process per call with an empty environment and no file system access),",
+    "  `worker` (a worker thread per call) or `vm` (in-process). Only `process` isolates generated code",
+    "  from the server: a `vm` context is not a security boundary, so `vm` code can reach `process`",
+    "  and the server's environment (API keys included), and `worker` code can read it from",
+    "  `/proc/self/environ`. Use them only for trusted code. `worker` and `process` have a",
+    "  heap limit of `MCP_SANDBOX_MEMORY_MB` (default 128), proxy `fetch` and `callTool` through the",
+    "  server, and contain crashes to the call (`sandbox_error`). Both start a fresh sandbox for every",
+    "  handler, orchestration, transform and template run, which adds some 50-100ms to each: a",
+    "  pass-through tool with input and output transforms starts three. `vm` adds almost nothing.",
+    `- Each tool call has a ${limits.timeoutMs}ms wall-clock timeout (async work included), at most`,
+    `  ${limits.maxConcurrency || "unlimited"} concurrent calls per tool and a ${limits.maxResponseBytes ? `${limits.maxResponseBytes}-byte` : "no"} result size cap.`,
+    "  Override with `MCP_TOOL_TIMEOUT_MS`, `MCP_MAX_CONCURRENCY` and `MCP_MAX_RESPONSE_BYTES`",
+    "  (0 disables the last two), or per tool with `MCP_TOOL_LIMITS`, e.g.",
+    "  `{\"my_tool\": {\"timeoutMs\": 60000}}`.",
+    ...(toolLimitNames.length > 0
+      ? [`  The export sets its own limits for ${toolLimitNames.map(n => `\`${n}\``).join(", ")}.`]
+      : []),
+    `- ${cacheDescription} Set \`MCP_CACHE_TTL\` (seconds) to cache every tool`,
+    "  or `MCP_CACHE_TOOLS` (JSON of tool name to seconds) per tool. Cached results, keyed by tool",
+    "  name and arguments, are kept in an in-memory LRU (`MCP_CACHE_MAX_ENTRIES`, default 1000)",
+    "  and also on disk when `MCP_CACHE_DIR` is set. `/health` reports cache hits and misses.",
+    "- Handler return values are normalized into MCP `CallToolResult`s: strings and plain values",
+    "  become text content, and tools with an `outputSchema` also return `structuredContent`.",
+    ...(needsNetwork(stages) ? [
+      "- `fetch` follows an outbound network policy: requests (and each redirect) must match an allow",
+      "  rule and no deny rule, and hosts resolving to private, loopback or link-local addresses are",
+      "  refused. Override fields of the exported policy with `MCP_NETWORK_POLICY`, e.g.",
+      "  `{\"allow\": [{\"host\": \"api.example.com\", \"schemes\": [\"https\"], \"methods\": [\"GET\"]}]}`.",
+      `- Idempotent requests that fail or get a 429/502/503/504 are retried up to ${options.outbound?.retries ?? 2} times`,
+      "  (`MCP_FETCH_RETRIES`) with exponential backoff, honoring `Retry-After`. Per-domain token-bucket",
+      "  rate limits come from the export and `MCP_RATE_LIMITS`, e.g. `{\"api.example.com\": {\"rate\": 5, \"burst\": 10}}`.",
+    ] : []),
+    "- Failures are returned as `isError` results and logged with the tool name. `_meta.error.category`",
+    "  is one of `invalid_arguments`, `unknown_tool`, `forbidden`, `network_denied`, `timeout`,",
+    "  `concurrency_limit`, `response_too_large`, `sandbox_error`, `upstream_error`, `transform_error`,",
+    "  `recursion_limit`, `cancelled` or `handler_error`.",
+    "- Handlers and orchestrations can call `progress(pct, message)` (pct from 0 to 100, increasing)",
+    "  to send `notifications/progress` to clients that asked for progress with a `progressToken`.",
+    "  When a client cancels a call (`notifications/cancelled`, over stdio or an HTTP session) or",
+    "  drops a stateless HTTP request, its pending `fetch` requests are aborted, further `fetch` and",
+    "  `callTool` calls fail with `cancelled`, and `worker` and `process` sandboxes are stopped at once.",
+    ...(mods.length > 0 ? [
+      "- Orchestrations' `callTool` reaches the tools their stage exposes (renamed and transformed",
+      "  pass-through tools and other synthetic tools), then the tools of the stage below.",
+      "  Nested calls are limited to `MCP_MAX_CALL_DEPTH` levels (default 8).",
+      `- Mod transform errors use the \`${transformErrors}\` policy (set \`MCP_TRANSFORM_ERRORS\` to override):`,
+      "  `fail` fails the call, `passthrough` continues with untransformed arguments or results,",
+      "  and `fallback` returns `MCP_TRANSFORM_FALLBACK_TEXT` instead of any tool output.",
+    ] : []),
+    "",
+    "## Authentication",
+    "",
+    "Over HTTP, set `MCP_API_KEY` to require `Authorization: Bearer <key>` on every request but",
+    "`/health`. For several clients, list named keys in `keys.json` (or another file named by",
+    "`MCP_API_KEYS_FILE`, or inline JSON in `MCP_API_KEYS`). A key with `tools` only sees and",
+    "calls those tools; other calls fail with the `forbidden` category:",
+    "",
+    "```json",
+    "{ \"keys\": [{ \"name\": \"team-a\", \"sha256\": \"<hex digest of the key>\", \"tools\": [\"search\"] }] }",
+    "```",
+    "",
+    "Entries may hold the plain `key` instead of its `sha256`. `mcpknife deploy --key` mints keys",
+    "and keeps `keys.json` up to date.",
     "",
+    ...(options.oauth ? [
+      "### OAuth",
+      "",
+      `The server is an OAuth 2.1 resource server for \`${options.oauth.issuer}\`. It accepts JWT`,
+      "access tokens signed with the issuer's keys (JWKS) whose `aud` is this server's URL, and",
+      "serves `/.well-known/oauth-protected-resource` so clients can discover the issuer. Requests",
+      "without a valid token get `401` with a `WWW-Authenticate` header pointing there.",
+      ...(options.oauth.toolScopes ? [
+        "Tools that need scopes are hidden from, and refused to, tokens without them:",
+        "",
+        ...Object.entries(options.oauth.toolScopes).map(([tool, scopes]) =>
+          `- \`${tool}\`: ${scopes.map(scope => `\`${scope}\``).join(", ")}`),
+        "",
+      ] : [""]),
+      "Override the settings with `MCP_OAUTH_ISSUER`, `MCP_OAUTH_AUDIENCE` (required if the export",
+      "did not set it), `MCP_OAUTH_JWKS_URI` and `MCP_OAUTH_TOOL_SCOPES` (JSON of tool name to scopes).",
+      "",
+    ] : []),
+    "## Rate Limits",
+    "",
+    "Over HTTP, each client (its verified API key or token subject, else its remote address) may make `MCP_RATE_LIMIT`",
+    "requests per minute (default 120) and `MCP_DAILY_QUOTA` requests per UTC day (default",
+    "unlimited); 0 disables either. Responses carry `RateLimit-*` and `X-Quota-*` headers, and",
+    "requests over a limit get `429 Too Many Requests` with `Retry-After`.",
+    "",
+    "## HTTP Security",
+    "",
+    "Requests carrying an `Origin` header are refused with `403` unless the origin is listed in",
+    `\`MCP_ALLOWED_ORIGINS\` (comma-separated, \`*\` for any; exported default: ${(options.allowedOrigins ?? []).length > 0 ? options.allowedOrigins!.map(o => `\`${o}\``).join(", ") : "none"}),`,
+    "which guards against DNS rebinding; only allowed origins get CORS headers. Clients that send",
+    "no `Origin`, such as MCP SDKs, are unaffected. Request bodies are capped at",
+    "`MCP_MAX_BODY_BYTES` (default 1 MiB), API keys are checked in constant time, and every",
+    "response carries `nosniff`, `no-store`, `no-referrer` and deny-framing headers.",
+    "",
+    "## Sessions",
+    "",
+    options.sessions
+      ? "This export serves stateful Streamable HTTP sessions (`MCP_SESSIONS=0` turns them off)."
+      : "This export serves each POST statelessly; set `MCP_SESSIONS=1` for stateful sessions.",
+    "With sessions, `initialize` returns an `Mcp-Session-Id` header that later requests must send.",
+    "`GET /mcp` opens an SSE stream for server notifications, and a client that reconnects with",
+    "`Last-Event-ID` gets the events it missed (the last 100 per session). `DELETE /mcp` ends the",
+    "session. A session is only usable with the API key or token that started it, and is closed",
+    "after `MCP_SESSION_IDLE_MS` (default 30 minutes) with no open requests. `MCP_MAX_SESSIONS`",
+    "(default 1000, 0 for unlimited) caps concurrent sessions.",
+    "",
+    "## Logs and Metrics",
+    "",
+    "Logs are JSON lines on stdout (stderr over stdio); set `MCP_LOG_FORMAT=text` for plain text.",
+    "Every tool call logs its `tool`, `requestId`, `durationMs`, `outcome` and, on failure, the",
+    "error `category`. `console.log` output from handlers carries the same `tool` and `requestId`.",
+    "Over HTTP the request ID comes from the `X-Request-Id` header when present and is echoed back.",
+    "",
+    "`GET /metrics` serves Prometheus metrics (behind the same auth as `/mcp`):",
+    "`mcp_tool_calls_total` and `mcp_tool_errors_total` by tool (and error category), the",
+    "`mcp_tool_call_duration_seconds` latency histogram, and cache hit/miss counters.",
+    "",
+    "## Tracing",
+    "",
+    "With a collector configured the server sends OpenTelemetry traces over OTLP/HTTP (JSON):",
+    `set \`OTEL_EXPORTER_OTLP_ENDPOINT\` (exported default: ${options.otlpEndpoint ? `\`${options.otlpEndpoint}\`` : "none"}; traces go to its`,
+    "`/v1/traces`) or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`. `OTEL_EXPORTER_OTLP_HEADERS` adds request",
+    "headers and `OTEL_SERVICE_NAME` names the service.",
+    "",
+    "Each tool call gets a `tools/call` server span, continuing the caller's trace when the HTTP",
+    "request has a `traceparent` header (or `params._meta.traceparent` over stdio). Below it are",
+    "spans for `dispatchTool`, each orchestration `callTool`, mod transforms and outbound fetches,",
+    "which pass `traceparent` on. Log lines in a traced call carry its `traceId` and `spanId`.",
+    "",
+    ...(prompts.length > 0 || resources.length > 0 || templates.length > 0 ? [
+      "## Prompts and Resources",
+      "",
+      "Besides tools, the server serves the prompts and resources of its pipeline stages:",
+      "",
+      ...(prompts.length > 0 ? [
+        `- Prompts (\`prompts/list\`, \`prompts/get\`): ${prompts.map(p => `\`${p.name}\``).join(", ")}.`,
+        "  `{{argument}}` placeholders in their messages are filled in from the request's arguments.",
+      ] : []),
+      ...(resources.length > 0 ? [
+        `- Static resources (\`resources/list\`, \`resources/read\`), stored in \`resources.json\`:`,
+        `  ${resources.map(r => `\`${r.uri}\``).join(", ")}.`,
+      ] : []),
+      ...(templates.length > 0 ? [
+        `- Resource templates (\`resources/templates/list\`): ${templates.map(t => `\`${t.uri_template}\``).join(", ")}.`,
+        `  Reads of matching URIs run the handlers in \`${ts ? "src/" : ""}resource-templates/\` in the sandbox, with the`,
+        "  template variables as `args`.",
+      ] : []),
+      "",
+    ] : []),
     "## Pipeline Stages",
     "",
   ];
@@ -106,7 +513,20 @@ function generateReadme(stages: StageMetadata[]): string {
     lines.push(`### ${stage.stage} (v${stage.version})`);
     lines.push("");
 
-    if (stage.stage === "boot") {
+    if (stage.stage === "upstream") {
+      const upstream = stage as UpstreamStage;
+      if (upstream.command) {
+        lines.push(`Proxies to stdio server: \`${upstream.command}\``);
+      } else if (upstream.url) {
+        lines.push(`Proxies to Streamable HTTP server: ${upstream.url}`);
+      } else {
+        lines.push("Proxies to an upstream server set at runtime.");
+      }
+      lines.push("Override with the `UPSTREAM_COMMAND` or `UPSTREAM_URL` environment variable.");
+      lines.push(`A stdio upstream gets the default environment (\`PATH\`, \`HOME\`, ...)${(options.upstreamEnv ?? []).length > 0
+        ? ` plus ${options.upstreamEnv!.map(name => `\`${name}\``).join(", ")}`
+        : ""}, not the server's keys or secrets.`);
+    } else if (stage.stage === "boot") {
       const boot = stage as BootStage;
       lines.push(`Tools: ${boot.tools.map(t => t.name).join(", ")}`);
       if (boot.whitelist_domains.length > 0) {
@@ -127,81 +547,554 @@ function generateReadme(stages: StageMetadata[]): string {
       const ui = stage as UIStage;
       lines.push(`UI resources: ${ui.ui_resources.map(r => r.tool_name).join(", ")}`);
     }
+    const extras = stage as StagePromptsAndResources;
+    if (extras.prompts?.length) {
+      lines.push(`Prompts: ${extras.prompts.map(p => p.name).join(", ")}`);
+    }
+    if (extras.resources?.length) {
+      lines.push(`Resources: ${extras.resources.map(r => r.uri).join(", ")}`);
+    }
+    if (extras.resource_templates?.length) {
+      lines.push(`Resource templates: ${extras.resource_templates.map(t => t.uri_template).join(", ")}`);
+    }
     lines.push("");
   }
 
   return lines.join("\n");
 }
 
-// Build the set of tools that should be exposed (visible to clients)
-function getExposedTools(stages: StageMetadata[]): Array<{
+// TypeScript names for each tool's input type, keyed by "<scope>:<tool>" where
+// scope is "boot" or "modN". Colliding names get a numeric suffix.
+function assignTypeNames(stages: StageMetadata[]): Map<string, { name: string; description: string; schema: Record<string, unknown> }> {
+  const entries = new Map<string, { name: string; description: string; schema: Record<string, unknown> }>();
+  const used = new Set<string>();
+
+  const add = (key: string, tool: string, description: string, schema: Record<string, unknown>) => {
+    const base = `${toTypeName(tool)}Input`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+    used.add(name);
+    entries.set(key, { name, description, schema });
+  };
+
+  const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
+  for (const t of boot?.tools ?? []) {
+    add(`boot:${t.name}`, t.name, t.description, t.input_schema);
+  }
+  getModStages(stages).forEach((mod, i) => {
+    for (const t of mod.pass_through_tools) {
+      add(`mod${i + 1}:${t.exposed_name}`, t.exposed_name, t.description || "", t.exposed_schema);
+    }
+    for (const t of mod.synthetic_tools) {
+      add(`mod${i + 1}:${t.name}`, t.name, t.description, t.input_schema);
+    }
+  });
+
+  return entries;
+}
+
+// Scope of the tools exposed to clients, for looking up their input types
+function exposedScope(stages: StageMetadata[]): string | null {
+  const mods = getModStages(stages);
+  if (mods.length > 0) return `mod${mods.length}`;
+  return stages.some(s => s.stage === "boot") ? "boot" : null;
+}
+
+function generateTypesTs(stages: StageMetadata[], secrets: string[]): string {
+  const typeNames = assignTypeNames(stages);
+  const lines = [
+    "// Tool input types, derived from each tool's JSON Schema by mcpknife export.",
+    "",
+  ];
+
+  for (const { name, description, schema } of typeNames.values()) {
+    if (description) lines.push(`/** ${description.replace(/\*\//g, "*\\/")} */`);
+    lines.push(`export type ${name} = ${schemaToType(schema)};`);
+    lines.push("");
+  }
+
+  // Globals the server injects into the sandbox
+  lines.push("declare global {");
+  if (secrets.length > 0) {
+    lines.push("  /** Declared secrets */");
+    lines.push(`  const secrets: Readonly<Record<${secrets.map(n => JSON.stringify(n)).join(" | ")}, string>>;`);
+  }
+  lines.push("  /** Reports progress (0-100, increasing) to clients that asked for it */");
+  lines.push("  function progress(pct: number, message?: string): void;");
+  lines.push("}");
+  lines.push("");
+
+  lines.push("// Calls a tool on the layer below an orchestration");
+  lines.push("export type CallTool = (name: string, args: Record<string, unknown>) => Promise<any>;");
+  lines.push("");
+
+  const scope = exposedScope(stages);
+  const exposed = scope
+    ? getExposedTools(stages).map(t => `  ${JSON.stringify(t.name)}: ${typeNames.get(`${scope}:${t.name}`)!.name};`)
+    : [];
+  lines.push("// Inputs of the tools this server exposes, by tool name");
+  lines.push(exposed.length > 0 ? `export interface ToolInputs {\n${exposed.join("\n")}\n}` : "export interface ToolInputs {}");
+  lines.push("");
+  lines.push("export type ToolName = keyof ToolInputs;");
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+// Import path of src/types.ts from a module at srcRelPath (e.g. "handlers/greet.ts")
+function typesImportPath(srcRelPath: string): string {
+  const rel = path.posix.relative(path.posix.dirname(srcRelPath), "types.js");
+  return rel.startsWith(".") ? rel : `./${rel}`;
+}
+
+function generateHandlerTs(tool: BootTool, typeName: string, relPath: string): string {
+  return `// Handler for the ${JSON.stringify(tool.name)} tool.
+// Runs in the vm sandbox: only \`args\` and the sandbox globals are in scope.
+import type { ${typeName} } from ${JSON.stringify(typesImportPath(relPath))};
+
+export default async function handler(args: ${typeName}) {
+${tool.handler_code}
+}
+`;
+}
+
+function generateOrchestrationTs(tool: SyntheticTool, typeName: string, relPath: string): string {
+  return `// Orchestration for the ${JSON.stringify(tool.name)} synthetic tool.
+// Runs in the vm sandbox: \`callTool\` reaches the tools this stage exposes, then the layer below.
+import type { CallTool, ${typeName} } from ${JSON.stringify(typesImportPath(relPath))};
+
+export default async function orchestration(args: ${typeName}, callTool: CallTool) {
+${tool.orchestration_code}
+}
+`;
+}
+
+function generateTransformTs(tool: PassThroughTool, typeName: string, relPath: string): string {
+  const lines = [
+    `// Argument and result transforms for the ${JSON.stringify(tool.exposed_name)} tool.`,
+    `import type { ${typeName} } from ${JSON.stringify(typesImportPath(relPath))};`,
+    "",
+  ];
+  if (tool.input_transform_code) {
+    lines.push(`export function inputTransform(args: ${typeName}) {`, tool.input_transform_code, "}", "");
+  }
+  if (tool.output_transform_code) {
+    lines.push("export function outputTransform(result: any) {", tool.output_transform_code, "}", "");
+  }
+  return lines.join("\n");
+}
+
+function generateResourceTemplateTs(template: StageResourceTemplate): string {
+  return `// Reads resources matching ${template.uri_template}.
+// Runs in the vm sandbox: \`args\` holds the template variables, \`uri\` the requested URI.
+export default async function read(args: Record<string, string>, uri: string) {
+${template.handler_code}
+}
+`;
+}
+
+function generateTsConfig(): object {
+  return {
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      outDir: "dist",
+      rootDir: "src",
+      strict: false,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    },
+    include: ["src/**/*"],
+  };
+}
+
+interface ExposedTool {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
-}> {
+  outputSchema?: Record<string, unknown>;
+}
+
+function exposedTool(
+  name: string,
+  description: string,
+  inputSchema: Record<string, unknown>,
+  outputSchema?: Record<string, unknown>,
+): ExposedTool {
+  return outputSchema ? { name, description, inputSchema, outputSchema } : { name, description, inputSchema };
+}
+
+// Fill in the network policy defaults from the boot stage whitelist
+function resolveNetworkPolicy(boot: BootStage, policy: NetworkPolicy = {}): Required<NetworkPolicy> {
+  return {
+    allow: policy.allow ?? boot.whitelist_domains.map(host => ({ host })),
+    deny: policy.deny ?? [],
+    blockPrivate: policy.blockPrivate ?? true,
+  };
+}
+
+// True when any boot tool makes network requests
+function needsNetwork(stages: StageMetadata[]): boolean {
+  const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
+  return boot?.tools.some(t => t.needs_network) ?? false;
+}
+
+// Globals visible to sandboxed code, as object literal entries
+function sandboxGlobals(fetchExpr: string | null, secretsExpr: string): string {
+  return [
+    `    secrets: ${secretsExpr},`,
+    "    JSON, Math, String, Number, Boolean, Array, Object, Map, Set,",
+    "    Date, RegExp, parseInt, parseFloat, isNaN, isFinite,",
+    "    structuredClone, console: { log }, progress,",
+    "    Promise,",
+    ...(fetchExpr ? [`    fetch: ${fetchExpr},`] : []),
+  ].join("\n");
+}
+
+// Entry point of the worker/process sandbox backends. Runs one call per
+// worker and reaches host functions (fetch, callTool) by message passing.
+function generateSandboxWorker(hasNetwork: boolean, ts: boolean): string {
+  return `// Sandbox backend for the worker and process modes of the exported server.
+// Runs one handler call in a vm context; fetch and callTool are proxied to the host.
+import vm from "node:vm";
+import { format } from "node:util";
+import { parentPort } from "node:worker_threads";
+
+// Worker threads talk over parentPort, child processes over IPC
+const channel = parentPort
+  ? { send: (msg) => parentPort.postMessage(msg), on: (fn) => parentPort.on("message", fn) }
+  : { send: (msg) => process.send(msg), on: (fn) => process.on("message", fn) };
+
+const pending = new Map();
+let nextId = 0;
+
+function callHost(name, args) {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    channel.send({ type: "call", id, name, args });
+  });
+}
+
+async function hostFetch(url, opts) {
+  // Signals and streams cannot cross the channel
+  const { signal, ...init } = opts || {};
+  if (init.headers) init.headers = Object.fromEntries(new Headers(init.headers));
+  const res${ts ? ": any" : ""} = await callHost("fetch", [String(url), init]);
+  const nullBody = [101, 204, 205, 304].includes(res.status);
+  return new Response(nullBody ? null : res.body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+// console.log output goes to the host, which logs it with the call's tool and request ID
+function log(...args) {
+  channel.send({ type: "log", text: format(...args) });
+}
+
+// Progress updates go to the host, which notifies the client
+function progress(pct, message) {
+  channel.send({ type: "progress", pct, message });
+}
+
+function run({ code, data, functions, secrets, timeoutMs }) {
+  const params = { ...data };
+  for (const name of functions) {
+    params[name] = (...args) => callHost(name, args);
+  }
+
+  const names = Object.keys(params).join(", ");
+  const sandbox = {
+    ...params,
+${sandboxGlobals(hasNetwork ? "hostFetch" : null, "secrets")}
+  };
+
+  const context = vm.createContext(sandbox);
+  const wrappedCode = "(async function(" + names + ") { " + code + " })(" + names + ")";
+  const script = new vm.Script(wrappedCode);
+  return script.runInContext(context, { timeout: timeoutMs });
+}
+
+channel.on(async (msg) => {
+  if (msg.type === "reply") {
+    const call = pending.get(msg.id);
+    pending.delete(msg.id);
+    if (msg.error) call.reject(Object.assign(new Error(msg.error.message), { category: msg.error.category }));
+    else call.resolve(msg.value);
+  } else if (msg.type === "run") {
+    try {
+      channel.send({ type: "done", value: await run(msg) });
+    } catch (err) {
+      const message = err && typeof err.message === "string" ? err.message : String(err);
+      channel.send({ type: "error", error: { message, code: err && err.code, category: err && err.category } });
+    }
+  }
+});
+`;
+}
+
+// Build the set of tools that should be exposed (visible to clients)
+function getExposedTools(stages: StageMetadata[]): ExposedTool[] {
   const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
-  const mod = stages.find(s => s.stage === "mod") as ModStage | undefined;
+  const mods = getModStages(stages);
+  const mod = mods[mods.length - 1];
 
   if (mod) {
-    // Mod stage defines which tools are exposed
-    const tools: Array<{ name: string; description: string; inputSchema: Record<string, unknown> }> = [];
+    // The outermost mod stage defines which tools are exposed
+    const tools: ExposedTool[] = [];
     for (const t of mod.pass_through_tools) {
-      tools.push({
-        name: t.exposed_name,
-        description: t.description || "",
-        inputSchema: t.exposed_schema,
-      });
+      tools.push(exposedTool(t.exposed_name, t.description || "", t.exposed_schema, t.output_schema));
     }
     for (const t of mod.synthetic_tools) {
-      tools.push({
-        name: t.name,
-        description: t.description,
-        inputSchema: t.input_schema,
-      });
+      tools.push(exposedTool(t.name, t.description, t.input_schema, t.output_schema));
     }
     return tools;
   }
 
   if (boot) {
     // Boot-only: all tools are exposed
-    return boot.tools.map(t => ({
-      name: t.name,
-      description: t.description,
-      inputSchema: t.input_schema,
-    }));
+    return boot.tools.map(t => exposedTool(t.name, t.description, t.input_schema, t.output_schema));
   }
 
   return [];
 }
 
-function generateServerJs(stages: StageMetadata[]): string {
+// OAuth resource-server runtime: verifies bearer JWTs against the issuer's JWKS
+// and serves protected-resource metadata (RFC 9728).
+function generateOAuthJs(oauth: OAuthOptions, recordType: string): string {
+  return `// OAuth 2.1 resource server: access tokens are JWTs signed by OAUTH.issuer, verified
+// against its JWKS (discovered from the issuer's metadata unless jwksUri is set).
+// MCP_OAUTH_ISSUER, MCP_OAUTH_AUDIENCE, MCP_OAUTH_JWKS_URI and MCP_OAUTH_TOOL_SCOPES
+// (JSON of tool name to required scopes) override the exported settings.
+const OAUTH${recordType} = ${JSON.stringify(oauth)};
+if (process.env.MCP_OAUTH_ISSUER) OAUTH.issuer = process.env.MCP_OAUTH_ISSUER;
+if (process.env.MCP_OAUTH_AUDIENCE) OAUTH.audience = process.env.MCP_OAUTH_AUDIENCE;
+if (process.env.MCP_OAUTH_JWKS_URI) OAUTH.jwksUri = process.env.MCP_OAUTH_JWKS_URI;
+try {
+  if (process.env.MCP_OAUTH_TOOL_SCOPES) OAUTH.toolScopes = JSON.parse(process.env.MCP_OAUTH_TOOL_SCOPES);
+} catch (err) {
+  console.error("Invalid MCP_OAUTH_TOOL_SCOPES: " + err.message);
+  process.exit(1);
+}
+
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_MIN_REFRESH_MS = 30000;
+
+// Verification parameters per JWS algorithm
+const JWT_ALGORITHMS${recordType} = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: { hash: "sha256", padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST },
+  PS384: { hash: "sha384", padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST },
+  PS512: { hash: "sha512", padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", dsaEncoding: "ieee-p1363" },
+  EdDSA: { hash: null },
+};
+
+let jwks = new Map();
+let jwksFetchedAt = 0;
+let jwksLoading = null;
+
+// RFC 8414 authorization server metadata, then OpenID Connect discovery
+async function discoverJwksUri() {
+  if (OAUTH.jwksUri) return OAUTH.jwksUri;
+  const issuer = new URL(OAUTH.issuer);
+  const issuerPath = issuer.pathname.replace(/\\/$/, "");
+  const candidates = [
+    issuer.origin + "/.well-known/oauth-authorization-server" + issuerPath,
+    issuer.origin + issuerPath + "/.well-known/openid-configuration",
+  ];
+  for (const url of candidates) {
+    const res = await fetch(url, { signal: AbortSignal.timeout(5000) }).catch(() => null);
+    if (!res || !res.ok) continue;
+    const metadata = await res.json();
+    if (metadata.jwks_uri) return OAUTH.jwksUri = metadata.jwks_uri;
+  }
+  throw new Error("cannot discover the JWKS of " + OAUTH.issuer);
+}
+
+async function loadJwks() {
+  const res = await fetch(await discoverJwksUri(), { signal: AbortSignal.timeout(5000) });
+  if (!res.ok) throw new Error("JWKS request failed: HTTP " + res.status);
+  const { keys = [] } = await res.json();
+  jwks = new Map(keys.filter(k => !k.use || k.use === "sig").map(k => [k.kid ?? "", k]));
+}
+
+function findJwk(kid) {
+  if (kid === undefined && jwks.size === 1) return jwks.values().next().value;
+  return jwks.get(kid ?? "");
+}
+
+// The JWK for a key ID, refetching the JWKS (at most every 30s) when the issuer rotates keys
+async function signingKey(kid) {
+  if (!findJwk(kid) && !jwksLoading && Date.now() - jwksFetchedAt > JWKS_MIN_REFRESH_MS) {
+    jwksFetchedAt = Date.now();
+    jwksLoading = loadJwks()
+      .catch(err => { jwksFetchedAt = 0; throw err; })
+      .finally(() => { jwksLoading = null; });
+  }
+  if (jwksLoading) await jwksLoading;
+  const jwk = findJwk(kid);
+  if (!jwk) throw new Error("unknown signing key " + kid);
+  return jwk;
+}
+
+// Verify a JWT access token: signature, issuer, audience, expiry and not-before.
+// Returns the client it identifies, with its granted scopes.
+async function verifyAccessToken(token) {
+  const segments = token.split(".");
+  let header, payload;
+  try {
+    [header, payload] = segments.slice(0, 2).map(s => JSON.parse(Buffer.from(s, "base64url").toString()));
+  } catch {
+    throw new Error("malformed token");
+  }
+  if (segments.length !== 3 || !header || !payload) throw new Error("malformed token");
+
+  const algorithm = JWT_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error("unsupported algorithm " + header.alg);
+  const jwk = await signingKey(header.kid);
+  if (jwk.alg && jwk.alg !== header.alg) throw new Error("algorithm does not match the signing key");
+  const { hash, ...keyOptions } = algorithm;
+  const valid = crypto.verify(
+    hash,
+    Buffer.from(segments[0] + "." + segments[1]),
+    { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), ...keyOptions },
+    Buffer.from(segments[2], "base64url"),
+  );
+  if (!valid) throw new Error("invalid signature");
+
+  const now = Date.now() / 1000;
+  if (payload.iss !== OAUTH.issuer) throw new Error("wrong issuer");
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(OAUTH.audience)) throw new Error("wrong audience");
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_SECONDS < now) throw new Error("token expired");
+  if (typeof payload.nbf === "number" && payload.nbf - CLOCK_SKEW_SECONDS > now) throw new Error("token not yet valid");
+
+  const scopes = typeof payload.scope === "string" ? payload.scope.split(" ").filter(Boolean)
+    : Array.isArray(payload.scp) ? payload.scp : [];
+  return { name: "oauth:" + (payload.sub ?? payload.client_id), tools: null, scopes: new Set(scopes) };
+}
+
+// RFC 9728 metadata for this resource, served under /.well-known/oauth-protected-resource
+function protectedResourceMetadata() {
+  const scopes = new Set(Object.values(OAUTH.toolScopes ?? {}).flat());
+  return {
+    resource: OAUTH.audience,
+    authorization_servers: [OAUTH.issuer],
+    bearer_methods_supported: ["header"],
+    ...(scopes.size > 0 ? { scopes_supported: Array.from(scopes) } : {}),
+  };
+}
+
+function wwwAuthenticate(error) {
+  const resource = new URL(OAUTH.audience);
+  const metadataUrl = resource.origin + "/.well-known/oauth-protected-resource" + resource.pathname.replace(/\\/$/, "");
+  let value = 'Bearer resource_metadata="' + metadataUrl + '"';
+  if (error) value += ', error="invalid_token", error_description="' + error.replace(/"/g, "'") + '"';
+  return value;
+}`;
+}
+
+function generateServerJs(stages: StageMetadata[], options: CodegenOptions): string {
   const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
-  const mod = stages.find(s => s.stage === "mod") as ModStage | undefined;
+  const upstream = stages.find(s => s.stage === "upstream") as UpstreamStage | undefined;
+  const mods = getModStages(stages);
   const ui = stages.find(s => s.stage === "ui") as UIStage | undefined;
+  const { prompts, resources, templates } = collectPromptsAndResources(stages);
+  const uiResourceCount = ui?.ui_resources.length ?? 0;
+  const hasResources = Boolean(ui) || resources.length > 0 || templates.length > 0;
+
+  // Without a mod stage, a proxied upstream's tool list is only known at runtime
+  const proxyToolList = Boolean(upstream) && mods.length === 0;
+  const rootCall = upstream ? "callUpstreamTool" : "callBootTool";
 
-  const hasNetwork = boot?.tools.some(t => t.needs_network) ?? false;
-  const whitelistDomains = boot?.whitelist_domains ?? [];
+  const hasNetwork = needsNetwork(stages);
 
   const exposedTools = getExposedTools(stages);
+  const ts = options.lang === "ts";
+  const recordType = ts ? ": Record<string, any>" : "";
+  const anyType = ts ? ": any" : "";
 
   // Build imports section
   const importLines = [
     'import { Server } from "@modelcontextprotocol/sdk/server/index.js";',
     'import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";',
-    'import { ListToolsRequestSchema, CallToolRequestSchema } from "@modelcontextprotocol/sdk/types.js";',
+    'import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";',
+    'import { ListToolsRequestSchema, CallToolRequestSchema, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";',
     'import http from "node:http";',
     'import vm from "node:vm";',
-    'import { readFileSync } from "node:fs";',
+    'import { Worker } from "node:worker_threads";',
+    'import { fork } from "node:child_process";',
+    'import { existsSync, readFileSync } from "node:fs";',
+    'import { mkdir, readFile, rm, writeFile } from "node:fs/promises";',
+    'import crypto from "node:crypto";',
     'import { fileURLToPath } from "node:url";',
     'import path from "node:path";',
+    'import { format } from "node:util";',
+    'import { AsyncLocalStorage } from "node:async_hooks";',
   ];
 
-  if (ui) {
+  if (upstream) {
+    importLines.push(
+      'import { Client } from "@modelcontextprotocol/sdk/client/index.js";',
+      'import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";',
+      'import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";',
+    );
+  }
+
+  if (hasNetwork) {
+    importLines.push(
+      'import dns from "node:dns";',
+      'import net from "node:net";',
+      'import { Agent, fetch as undiciFetch } from "undici";',
+    );
+  }
+
+  if (hasResources) {
     importLines.push(
       'import { ListResourcesRequestSchema, ReadResourceRequestSchema } from "@modelcontextprotocol/sdk/types.js";',
     );
   }
 
+  if (templates.length > 0) {
+    importLines.push(
+      'import { ListResourceTemplatesRequestSchema } from "@modelcontextprotocol/sdk/types.js";',
+    );
+  }
+
+  if (prompts.length > 0) {
+    importLines.push(
+      'import { ListPromptsRequestSchema, GetPromptRequestSchema, ErrorCode } from "@modelcontextprotocol/sdk/types.js";',
+    );
+  }
+
+  if (hasResources || prompts.length > 0) {
+    importLines.push('import { McpError } from "@modelcontextprotocol/sdk/types.js";');
+  }
+
+  // TS target: handler, orchestration and transform modules are imported, not read from disk
+  if (ts) {
+    boot?.tools.forEach((t, j) => {
+      importLines.push(`import bootHandler${j} from ${JSON.stringify(`./handlers/${t.name}.js`)};`);
+    });
+    mods.forEach((mod, i) => {
+      mod.pass_through_tools.filter(hasTransforms).forEach((t, j) => {
+        const file = `./${modFileDir("transforms", i, mods.length)}/${t.exposed_name}.js`;
+        importLines.push(`import * as mod${i + 1}Transform${j} from ${JSON.stringify(file)};`);
+      });
+      mod.synthetic_tools.forEach((t, j) => {
+        const file = `./${modFileDir("orchestrations", i, mods.length)}/${t.name}.js`;
+        importLines.push(`import mod${i + 1}Orchestration${j} from ${JSON.stringify(file)};`);
+      });
+    });
+    templates.forEach((t, j) => {
+      importLines.push(`import resourceTemplate${j} from ${JSON.stringify(`./resource-templates/${t.name}.js`)};`);
+    });
+  }
+
   // Build sandbox and dispatch code
   const parts: string[] = [];
 
@@ -211,178 +1104,1334 @@ function generateServerJs(stages: StageMetadata[]): string {
   parts.push('const __dirname = path.dirname(__filename);');
   parts.push("");
 
-  // Whitelisted fetch for network-enabled tools
-  if (hasNetwork) {
-    parts.push(`const WHITELIST_DOMAINS = ${JSON.stringify(whitelistDomains)};`);
+  // Project root: holds ui/ and the other exported data files
+  parts.push(`const PROJECT_DIR = ${ts ? 'path.resolve(__dirname, "..")' : "__dirname"};
+
+function loadText(relPath) {
+  return readFileSync(path.join(PROJECT_DIR, relPath), "utf-8");
+}`);
+  parts.push("");
+
+  if (ts) {
+    parts.push(`// Source that calls a compiled module function inside the vm sandbox
+function callSource(fn, params) {
+  return "return (" + fn.toString() + ")(" + params + ");";
+}`);
     parts.push("");
-    parts.push(`function isAllowed(url) {
-  try {
-    const hostname = new URL(url).hostname;
-    return WHITELIST_DOMAINS.some(d => hostname === d || hostname.endsWith("." + d));
-  } catch {
-    return false;
   }
-}
 
-const whitelistedFetch = (url, opts) => {
-  if (!isAllowed(url)) {
-    throw new Error("Network access denied: " + url);
+  // Transport selection and logging
+  parts.push(`// Transport: --stdio / --http flags override MCP_TRANSPORT, then the export default
+const TRANSPORT = process.argv.includes("--stdio") ? "stdio"
+  : process.argv.includes("--http") ? "http"
+  : (process.env.MCP_TRANSPORT || ${JSON.stringify(options.transport ?? "http")});
+
+// Logs are JSON lines (MCP_LOG_FORMAT=text for plain text). In stdio mode stdout
+// carries the protocol, so logs go to stderr.
+const LOG_FORMAT = process.env.MCP_LOG_FORMAT === "text" ? "text" : "json";
+const logStream = TRANSPORT === "stdio" ? process.stderr : process.stdout;
+
+// The tool call in progress ({ requestId, tool, span, signal, progress }). Its request ID
+// and tool are attached to every line it logs, including console.log output from
+// sandboxed code.
+const callContext = new AsyncLocalStorage${ts ? "<Record<string, any>>" : ""}();
+
+function logEvent(level, msg, fields = {}) {
+  const { span, signal, progress, ...context } = callContext.getStore() ?? {};
+  const trace = span ? { traceId: span.traceId, spanId: span.spanId } : {};
+  const entry = { time: new Date().toISOString(), level, msg, ...context, ...trace, ...fields };
+  if (LOG_FORMAT === "json") {
+    logStream.write(JSON.stringify(entry) + "\\n");
+    return;
   }
-  return fetch(url, opts);
-};`);
-    parts.push("");
+  const extra = Object.entries(entry)
+    .filter(([key, value]) => !["time", "level", "msg"].includes(key) && value !== undefined)
+    .map(([key, value]) => key + "=" + (typeof value === "string" ? value : JSON.stringify(value)));
+  logStream.write([msg, ...extra].join(" ") + "\\n");
+}
+
+function log(...args) {
+  logEvent("info", format(...args));
+}`);
+  parts.push("");
+
+  // Tool error categories
+  parts.push(`// Error with a category, reported to clients as an isError tool result
+class ToolError extends Error {
+  category;
+
+  constructor(category, message) {
+    super(message);
+    this.name = "ToolError";
+    this.category = category;
   }
+}
 
-  // Sandbox runner
-  parts.push(`const SANDBOX_TIMEOUT_MS = 30000;
+// Map a thrown value to a category. Errors thrown by sandboxed code come from
+// another realm, so this checks properties rather than instanceof Error.
+function classifyError(err) {
+  if (err instanceof ToolError) return { category: err.category, message: err.message };
+  const message = err && typeof err.message === "string" ? err.message : String(err);
+  if (err && err.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+    return { category: "timeout", message: "Timed out after " + SANDBOX_TIMEOUT_MS + "ms" };
+  }
+  return { category: "handler_error", message };
+}
 
-function runHandler(code, args) {
-  const sandbox = {
-    args,
-    JSON, Math, String, Number, Boolean, Array, Object, Map, Set,
-    Date, RegExp, parseInt, parseFloat, isNaN, isFinite,
-    structuredClone, console: { log: console.log },
-    Promise,${hasNetwork ? "\n    fetch: whitelistedFetch," : ""}
+function toolErrorResult(name, category, message) {
+  return {
+    content: [{ type: "text", text: "Tool " + name + " failed (" + category + "): " + message }],
+    _meta: { error: { category, message } },
+    isError: true,
   };
+}
 
-  const context = vm.createContext(sandbox);
-  const wrappedCode = "(async function(args) { " + code + " })(args)";
-  const script = new vm.Script(wrappedCode);
-  return script.runInContext(context, { timeout: SANDBOX_TIMEOUT_MS });
+// Stop work for a tools/call the client cancelled (notifications/cancelled)
+function cancelledError() {
+  return new ToolError("cancelled", "Cancelled by the client");
+}
+
+function throwIfCancelled() {
+  if (callContext.getStore()?.signal?.aborted) throw cancelledError();
+}
+
+// progress(pct, message) for sandboxed code: notifies the client when the call has a
+// progress token, and does nothing otherwise
+function progress(pct, message) {
+  callContext.getStore()?.progress?.(pct, message);
 }`);
   parts.push("");
 
-  // Boot handler loader
-  if (boot) {
-    parts.push(`// Boot tool handlers
-const bootHandlers = new Map();
-${boot.tools.map(t =>
-  `bootHandlers.set(${JSON.stringify(t.name)}, readFileSync(path.join(__dirname, "handlers", ${JSON.stringify(t.name + ".js")}), "utf-8"));`
+  parts.push(`// Read a non-negative integer setting from the environment
+function envInt(name, fallback, min = 0) {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    console.error("Invalid " + name + ": " + value + " (expected an integer >= " + min + ")");
+    process.exit(1);
+  }
+  return n;
+}`);
+  parts.push("");
+
+  // OpenTelemetry tracing
+  parts.push(`// OpenTelemetry traces, sent as OTLP/HTTP JSON. Off unless a collector is configured
+// (OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT).
+const OTLP_ENDPOINT = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || ${JSON.stringify(options.otlpEndpoint ?? "")};
+const OTLP_TRACES_URL = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  || (OTLP_ENDPOINT ? OTLP_ENDPOINT.replace(/\\/+$/, "") + "/v1/traces" : "");
+const TRACING = OTLP_TRACES_URL !== "";
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || "exported-mcp-server";
+const SPAN_KIND = { internal: 1, server: 2, client: 3 };
+
+// OTEL_EXPORTER_OTLP_HEADERS: "key=value,..." with URL-encoded values
+const OTLP_HEADERS${recordType} = { "content-type": "application/json" };
+try {
+  for (const pair of (process.env.OTEL_EXPORTER_OTLP_HEADERS || "").split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq > 0) OTLP_HEADERS[pair.slice(0, eq).trim()] = decodeURIComponent(pair.slice(eq + 1).trim());
+  }
+} catch (err) {
+  console.error("Invalid OTEL_EXPORTER_OTLP_HEADERS: " + err.message);
+  process.exit(1);
+}
+
+// Nanoseconds since the epoch, as the decimal string OTLP expects
+function nowUnixNano() {
+  const ms = performance.timeOrigin + performance.now();
+  return Math.floor(ms) + String(Math.floor((ms % 1) * 1e6)).padStart(6, "0");
+}
+
+// W3C trace context header ("00-<trace id>-<span id>-<flags>") as a parent span, or null
+function parseTraceparent(header) {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(String(header ?? "").trim());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+function formatTraceparent(span) {
+  return "00-" + span.traceId + "-" + span.spanId + "-01";
+}
+
+function otlpAttributes(attributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({
+      key,
+      value: typeof value === "boolean" ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: value }
+        : typeof value === "number" ? { doubleValue: value }
+        : { stringValue: String(value) },
+    }));
+}
+
+// Finished spans waiting to be sent, every 2s or once 512 pile up
+const pendingSpans = [];
+let exportFailing = false;
+
+async function flushSpans() {
+  if (pendingSpans.length === 0) return;
+  const spans = pendingSpans.splice(0);
+  const body = {
+    resourceSpans: [{
+      resource: { attributes: otlpAttributes({ "service.name": SERVICE_NAME }) },
+      scopeSpans: [{ scope: { name: "mcpknife-export" }, spans }],
+    }],
+  };
+  try {
+    const res = await fetch(OTLP_TRACES_URL, {
+      method: "POST",
+      headers: OTLP_HEADERS,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(10000),
+    });
+    await res.body?.cancel();
+    if (!res.ok) throw new Error("HTTP " + res.status);
+    exportFailing = false;
+  } catch (err) {
+    // Spans are dropped; log once per outage rather than every batch
+    if (!exportFailing) logEvent("warn", "trace export failed", { endpoint: OTLP_TRACES_URL, error: err.message });
+    exportFailing = true;
+  }
+}
+
+if (TRACING) setInterval(flushSpans, 2000).unref();
+
+// Send what is left, then exit. The export's own 10s timeout bounds the wait; later
+// calls (a signal after the transport closed) join the first.
+let exiting = null;
+function exitAfterFlush() {
+  exiting ??= flushSpans().finally(() => process.exit(0));
+}
+
+function recordSpan(span) {
+  pendingSpans.push({
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+    name: span.name,
+    kind: span.kind,
+    startTimeUnixNano: span.startTimeUnixNano,
+    endTimeUnixNano: nowUnixNano(),
+    attributes: otlpAttributes(span.attributes),
+    status: span.error ? { code: 2, message: span.error } : {},
+  });
+  if (pendingSpans.length >= 512) flushSpans();
+}
+
+// Run fn in a new span, a child of the one in progress. fn gets the span (null when
+// tracing is off) and may add attributes or set span.error. A throw or an isError
+// tool result also marks the span as failed.
+async function withSpan(name, kind, attributes, fn) {
+  if (!TRACING) return fn(null);
+  const store = callContext.getStore() ?? {};
+  const parent = store.span;
+  const span${anyType} = {
+    traceId: parent?.traceId ?? crypto.randomBytes(16).toString("hex"),
+    spanId: crypto.randomBytes(8).toString("hex"),
+    parentSpanId: parent?.spanId,
+    name,
+    kind,
+    attributes: { ...attributes },
+    startTimeUnixNano: nowUnixNano(),
+  };
+  try {
+    const result = await callContext.run({ ...store, span }, () => fn(span));
+    if (result?.isError) {
+      const error = result._meta?.error ?? {};
+      span.error ??= error.message ?? "Tool returned an error";
+      span.attributes["error.type"] ??= error.category;
+    }
+    return result;
+  } catch (err) {
+    const { category, message } = classifyError(err);
+    span.error = message;
+    span.attributes["error.type"] = category;
+    throw err;
+  } finally {
+    recordSpan(span);
+  }
+}`);
+  parts.push("");
+
+  // Policy-checked fetch for network-enabled tools
+  if (hasNetwork) {
+    const outbound = options.outbound ?? {};
+    parts.push(`// Outbound network policy. MCP_NETWORK_POLICY (JSON) overrides its fields.
+//   allow, deny   - rules on host (the domain and its subdomains, "*" for any), schemes,
+//                   methods, ports and pathPrefix; omitted fields match anything.
+//                   A request must match no deny rule and at least one allow rule.
+//   blockPrivate  - refuse hosts that resolve to loopback, private or link-local addresses.
+//                   The check runs when connecting, on the addresses the connection uses.
+const NETWORK_POLICY${recordType} = { ...${JSON.stringify(resolveNetworkPolicy(boot!, options.networkPolicy))} };
+try {
+  Object.assign(NETWORK_POLICY, JSON.parse(process.env.MCP_NETWORK_POLICY || "{}"));
+} catch (err) {
+  console.error("Invalid MCP_NETWORK_POLICY: " + err.message);
+  process.exit(1);
+}
+
+const MAX_REDIRECTS = 5;
+
+// Unspecified, RFC1918, shared, loopback, link-local, multicast and reserved ranges
+const PRIVATE_RANGES = [
+  "0.0.0.0/8", "10.0.0.0/8", "100.64.0.0/10", "127.0.0.0/8", "169.254.0.0/16",
+  "172.16.0.0/12", "192.168.0.0/16", "224.0.0.0/4", "240.0.0.0/4",
+  "::/128", "::1/128", "fc00::/7", "fe80::/10", "ff00::/8",
+];
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const range of PRIVATE_RANGES) {
+  const [network, prefix] = range.split("/");
+  PRIVATE_ADDRESSES.addSubnet(network, Number(prefix), net.isIPv6(network) ? "ipv6" : "ipv4");
+}
+
+function isPrivateAddress(address) {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\\d+\\.\\d+\\.\\d+\\.\\d+)$/);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+function ruleMatches(rule, url, method) {
+  const host = url.hostname;
+  const port = Number(url.port || (url.protocol === "https:" ? 443 : 80));
+  if (rule.host && rule.host !== "*" && host !== rule.host && !host.endsWith("." + rule.host)) return false;
+  if (rule.schemes && !rule.schemes.includes(url.protocol.slice(0, -1))) return false;
+  if (rule.methods && !rule.methods.some(m => m.toUpperCase() === method)) return false;
+  if (rule.ports && !rule.ports.includes(port)) return false;
+  if (rule.pathPrefix && !url.pathname.startsWith(rule.pathPrefix)) return false;
+  return true;
+}
+
+// Throw network_denied unless the policy allows this request
+function checkNetworkPolicy(target, method) {
+  const deny = (reason) => {
+    throw new ToolError("network_denied", "Network access denied: " + method + " " + target + " (" + reason + ")");
+  };
+
+  let url;
+  try {
+    url = new URL(target);
+  } catch {
+    deny("invalid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") deny("unsupported scheme");
+  if ((NETWORK_POLICY.deny || []).some(rule => ruleMatches(rule, url, method))) deny("matches a deny rule");
+  if (!(NETWORK_POLICY.allow || []).some(rule => ruleMatches(rule, url, method))) deny("not in the allow list");
+
+  // Host names are checked by policyLookup as the connection is made
+  const hostname = url.hostname.replace(/^\\[|\\]$/g, "");
+  if (NETWORK_POLICY.blockPrivate !== false && net.isIP(hostname) && isPrivateAddress(hostname)) {
+    deny("private address");
+  }
+}
+
+// DNS lookup for outbound connections. Checking the addresses the socket connects to,
+// rather than a separate lookup beforehand, keeps DNS rebinding from getting around
+// blockPrivate.
+function policyLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses${anyType}) => {
+    if (err) return callback(err);
+    if (NETWORK_POLICY.blockPrivate !== false && addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(new ToolError("network_denied", "Network access denied: " + hostname + " resolves to a private address"));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const policyAgent = new Agent({ connect: { lookup: policyLookup } });
+
+// fetch that checks every request, including each redirect hop, against the policy
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Outbound rate limits: a token bucket per domain, refilled at \`rate\` requests per
+// second up to \`burst\`. A domain also covers its subdomains; "*" is one bucket shared
+// by all other hosts. MCP_RATE_LIMITS (JSON of domain to { rate, burst }) adds to them.
+let RATE_LIMITS${recordType} = ${JSON.stringify(outbound.rateLimits ?? {})};
+try {
+  RATE_LIMITS = { ...RATE_LIMITS, ...JSON.parse(process.env.MCP_RATE_LIMITS || "{}") };
+} catch (err) {
+  console.error("Invalid MCP_RATE_LIMITS: " + err.message);
+  process.exit(1);
+}
+
+const buckets = new Map();
+
+// The most specific configured domain for a host
+function rateLimitDomain(host) {
+  const labels = host.split(".");
+  for (let i = 0; i < labels.length; i++) {
+    const domain = labels.slice(i).join(".");
+    if (RATE_LIMITS[domain]) return domain;
+  }
+  return RATE_LIMITS["*"] ? "*" : null;
+}
+
+// Wait until the host's bucket has a token, then take it
+async function takeToken(host) {
+  const domain = rateLimitDomain(host);
+  if (!domain) return;
+  const { rate, burst = Math.max(1, rate) } = RATE_LIMITS[domain];
+
+  let bucket = buckets.get(domain);
+  if (!bucket) {
+    bucket = { tokens: burst, updated: Date.now() };
+    buckets.set(domain, bucket);
+  }
+  for (;;) {
+    const now = Date.now();
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updated) / 1000) * rate);
+    bucket.updated = now;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / rate) * 1000);
+  }
+}
+
+// Retries for idempotent requests that fail at the network level or get a
+// 429/502/503/504, with exponential backoff or the server's Retry-After
+const FETCH_RETRIES = envInt("MCP_FETCH_RETRIES", ${outbound.retries ?? 2});
+const RETRY_BASE_MS = envInt("MCP_FETCH_RETRY_BASE_MS", 500, 1);
+const RETRY_MAX_MS = envInt("MCP_FETCH_RETRY_MAX_MS", 30000, 1);
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+// Exponential backoff with full jitter
+function backoffMs(attempt) {
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+// Retry-After as a delay in ms (delta-seconds or an HTTP date), or null
+function retryAfterMs(res) {
+  const value = res.headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+async function fetchWithRetry(url, init, method) {
+  const host = new URL(url).hostname;
+  const retries = IDEMPOTENT_METHODS.includes(method) ? FETCH_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    await takeToken(host);
+    let res;
+    try {
+      res = await undiciFetch(url, { ...init, dispatcher: policyAgent });
+    } catch (err) {
+      // A connection refused by policyLookup is a denial, not a network failure
+      if (err.cause instanceof ToolError) throw err.cause;
+      if (attempt >= retries || init.signal?.aborted) throw err;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+    if (attempt >= retries || !RETRY_STATUSES.includes(res.status)) return res;
+
+    // A Retry-After beyond the longest backoff is left for the handler to deal with
+    const delay = retryAfterMs(res) ?? backoffMs(attempt);
+    if (delay > RETRY_MAX_MS) return res;
+    await res.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+// fetch for generated code: every hop is checked against the network policy, the
+// request is aborted if the tool call is cancelled, and it is traced as a client span
+// that passes the trace context on
+function policyFetch(target, opts${anyType} = {}) {
+  const method = (opts.method || "GET").toUpperCase();
+  const attributes = { "http.request.method": method, "url.full": String(target).replace(/[?#].*$/, "") };
+  return withSpan("fetch " + method, SPAN_KIND.client, attributes, async (span) => {
+    throwIfCancelled();
+    const callSignal = callContext.getStore()?.signal;
+    const init${anyType} = { ...opts, signal: callSignal && opts.signal ? AbortSignal.any([callSignal, opts.signal]) : callSignal ?? opts.signal };
+    if (span) {
+      init.headers = new Headers(opts.headers);
+      init.headers.set("traceparent", formatTraceparent(span));
+    }
+    let res;
+    try {
+      res = await followRedirects(target, init);
+    } catch (err) {
+      throwIfCancelled();
+      throw err;
+    }
+    if (span) {
+      span.attributes["http.response.status_code"] = res.status;
+      if (res.status >= 400) span.error = "HTTP " + res.status;
+    }
+    return res;
+  });
+}
+
+async function followRedirects(target, opts${anyType}) {
+  let method = (opts.method || "GET").toUpperCase();
+  let init${anyType} = { ...opts, redirect: "manual" };
+  let current = String(target);
+
+  for (let hop = 0; ; hop++) {
+    checkNetworkPolicy(current, method);
+    const res = await fetchWithRetry(current, init, method);
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location || opts.redirect === "manual") return res;
+    if (opts.redirect === "error") throw new Error("Redirected from " + current + " with redirect: error");
+    if (hop >= MAX_REDIRECTS) throw new ToolError("network_denied", "Too many redirects from " + target);
+
+    current = new URL(location, current).href;
+    // Like fetch, 303 (and 301/302 after POST) continue as a GET without a body
+    if (res.status === 303 || ((res.status === 301 || res.status === 302) && method === "POST")) {
+      method = "GET";
+      init = { ...init, method, body: undefined };
+    }
+  }
+}`);
+    parts.push("");
+  }
+
+  // Per-tool limits
+  const limits = { ...DEFAULT_TOOL_LIMITS, ...options.limits };
+  parts.push(`// Per-tool limits: a wall-clock timeout (async work included), concurrent calls
+// and result size. 0 disables the concurrency and size limits.
+const DEFAULT_LIMITS = {
+  timeoutMs: envInt("MCP_TOOL_TIMEOUT_MS", ${limits.timeoutMs}, 1),
+  maxConcurrency: envInt("MCP_MAX_CONCURRENCY", ${limits.maxConcurrency}),
+  maxResponseBytes: envInt("MCP_MAX_RESPONSE_BYTES", ${limits.maxResponseBytes}),
+};
+
+// Limits are known fields with integer values, the timeout at least 1ms
+function checkToolLimits(config) {
+  if (!config || typeof config !== "object" || Array.isArray(config)) throw new Error("expected an object keyed by tool name");
+  for (const [tool, limits] of Object.entries(config)) {
+    if (!limits || typeof limits !== "object" || Array.isArray(limits)) throw new Error("limits for " + tool + " must be an object");
+    for (const [key, value] of Object.entries(limits)) {
+      if (!(key in DEFAULT_LIMITS)) throw new Error("unknown limit " + tool + "." + key);
+      const min = key === "timeoutMs" ? 1 : 0;
+      if (!Number.isInteger(value) || value < min) throw new Error(tool + "." + key + " must be an integer >= " + min);
+    }
+  }
+}
+
+// Per-tool overrides from the export, then from MCP_TOOL_LIMITS (JSON keyed by tool name)
+const EXPORTED_TOOL_LIMITS${recordType} = ${JSON.stringify(options.toolLimits ?? {})};
+let ENV_TOOL_LIMITS${recordType} = {};
+try {
+  ENV_TOOL_LIMITS = JSON.parse(process.env.MCP_TOOL_LIMITS || "{}");
+  checkToolLimits(ENV_TOOL_LIMITS);
+} catch (err) {
+  console.error("Invalid MCP_TOOL_LIMITS: " + err.message);
+  process.exit(1);
+}
+
+function toolLimits(name) {
+  return { ...DEFAULT_LIMITS, ...EXPORTED_TOOL_LIMITS[name], ...ENV_TOOL_LIMITS[name] };
+}
+
+// Calls in flight per tool
+const inFlight = new Map();
+
+// Run a tool call under its limits. The work runs with its own abort signal, which
+// fires once the call is over (timed out, cancelled or failed), so fetches, nested
+// calls and isolated sandboxes it left running stop. The concurrency slot is released
+// only once the work has settled (or its sandbox was killed), so a hung call cannot
+// pile up others.
+async function callWithLimits(name, run) {
+  throwIfCancelled();
+  const limits = toolLimits(name);
+  const active = inFlight.get(name) || 0;
+  if (limits.maxConcurrency > 0 && active >= limits.maxConcurrency) {
+    throw new ToolError("concurrency_limit", name + " already has " + active + " call(s) in flight");
+  }
+
+  const store = callContext.getStore();
+  const signal = store?.signal;
+  const controller = new AbortController();
+  const abortWork = () => controller.abort();
+  signal?.addEventListener("abort", abortWork, { once: true });
+
+  inFlight.set(name, active + 1);
+  const release = () => inFlight.set(name, inFlight.get(name) - 1);
+  const work${anyType} = callContext.run({ ...store, signal: controller.signal }, run);
+  work.then(release, release);
+
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ToolError("timeout", "Timed out after " + limits.timeoutMs + "ms"));
+    }, limits.timeoutMs);
+  });
+
+  // A cancelled call fails at once; its work sees the aborted signal and winds down
+  let onCancel;
+  const cancelled = new Promise((_, reject) => {
+    onCancel = () => reject(cancelledError());
+    signal?.addEventListener("abort", onCancel, { once: true });
+  });
+
+  try {
+    const result = await Promise.race([work, timeout, cancelled]);
+    const size = Buffer.byteLength(JSON.stringify(result));
+    if (limits.maxResponseBytes > 0 && size > limits.maxResponseBytes) {
+      throw new ToolError("response_too_large", "Result is " + size + " bytes (limit " + limits.maxResponseBytes + ")");
+    }
+    return result;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortWork);
+    signal?.removeEventListener("abort", onCancel);
+    controller.abort();
+  }
+}`);
+  parts.push("");
+
+  // Response cache
+  const cache = options.cache ?? {};
+  parts.push(`// Opt-in response cache, keyed by tool name and canonicalized arguments.
+// MCP_CACHE_TTL (seconds, 0 = off) applies to every tool; MCP_CACHE_TOOLS (JSON of
+// tool name to seconds) overrides it per tool. Entries live in an in-memory LRU of
+// MCP_CACHE_MAX_ENTRIES results and, when MCP_CACHE_DIR is set, on disk as well.
+const CACHE_TTL_SECONDS = envInt("MCP_CACHE_TTL", ${cache.ttlSeconds ?? 0});
+const CACHE_MAX_ENTRIES = envInt("MCP_CACHE_MAX_ENTRIES", ${cache.maxEntries ?? 1000}, 1);
+const CACHE_DIR = process.env.MCP_CACHE_DIR || "";
+let CACHE_TOOL_TTLS${recordType} = ${JSON.stringify(cache.tools ?? {})};
+try {
+  CACHE_TOOL_TTLS = { ...CACHE_TOOL_TTLS, ...JSON.parse(process.env.MCP_CACHE_TOOLS || "{}") };
+} catch (err) {
+  console.error("Invalid MCP_CACHE_TOOLS: " + err.message);
+  process.exit(1);
+}
+
+const cacheStats = { hits: 0, misses: 0 };
+const memoryCache = new Map();
+
+function cacheTtlMs(name) {
+  return (CACHE_TOOL_TTLS[name] ?? CACHE_TTL_SECONDS) * 1000;
+}
+
+// JSON with object keys sorted, so equivalent arguments share a cache entry
+function canonicalJson(value) {
+  if (Array.isArray(value)) return "[" + value.map(canonicalJson).join(",") + "]";
+  if (value && typeof value === "object") {
+    return "{" + Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => JSON.stringify(key) + ":" + canonicalJson(value[key]))
+      .join(",") + "}";
+  }
+  return JSON.stringify(value);
+}
+
+function cacheFile(key) {
+  return path.join(CACHE_DIR, crypto.createHash("sha256").update(key).digest("hex") + ".json");
+}
+
+function rememberInMemory(key, entry) {
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  // Map iteration order is insertion order, so the first key is the least recently used
+  if (memoryCache.size > CACHE_MAX_ENTRIES) memoryCache.delete(memoryCache.keys().next().value);
+}
+
+async function cacheGet(key) {
+  let entry = memoryCache.get(key);
+  if (!entry && CACHE_DIR) {
+    try {
+      entry = JSON.parse(await readFile(cacheFile(key), "utf-8"));
+    } catch {
+      entry = undefined;
+    }
+  }
+  if (!entry) return undefined;
+  if (entry.expires <= Date.now()) {
+    memoryCache.delete(key);
+    if (CACHE_DIR) rm(cacheFile(key), { force: true }).catch(() => {});
+    return undefined;
+  }
+  rememberInMemory(key, entry);
+  return entry.result;
+}
+
+async function cacheSet(key, result, ttlMs) {
+  const entry = { expires: Date.now() + ttlMs, result };
+  rememberInMemory(key, entry);
+  if (CACHE_DIR) {
+    try {
+      await mkdir(CACHE_DIR, { recursive: true });
+      await writeFile(cacheFile(key), JSON.stringify(entry));
+    } catch (err) {
+      logEvent("warn", "Cache write failed: " + err.message);
+    }
+  }
+}
+
+// Serve a call from the cache when its tool has a TTL; only successful results are stored
+async function withCache(name, args, run) {
+  const ttlMs = cacheTtlMs(name);
+  if (!(ttlMs > 0)) return run();
+
+  const key = name + ":" + canonicalJson(args);
+  const cached = await cacheGet(key);
+  if (cached !== undefined) {
+    cacheStats.hits++;
+    return cached;
+  }
+  cacheStats.misses++;
+  const result = await run();
+  if (!result.isError) await cacheSet(key, result, ttlMs);
+  return result;
+}`);
+  parts.push("");
+
+  // Sandbox runner
+  parts.push(`// The vm timeout bounds synchronous sandbox code. It matches the longest tool
+// timeout so it never cuts a call short; callWithLimits enforces the rest.
+const SANDBOX_TIMEOUT_MS = Math.max(
+  ...[DEFAULT_LIMITS, ...Object.values(EXPORTED_TOOL_LIMITS), ...Object.values(ENV_TOOL_LIMITS)]
+    .map(l => l.timeoutMs || 0),
+);
+
+// Declared secrets: the only environment variables sandboxed code can read
+const DECLARED_SECRETS = ${JSON.stringify(declaredSecrets(stages, options))};
+const SECRETS = Object.freeze(Object.fromEntries(
+  DECLARED_SECRETS.filter(name => process.env[name] !== undefined).map(name => [name, process.env[name]]),
+));
+
+const missingSecrets = DECLARED_SECRETS.filter(name => process.env[name] === undefined);
+if (missingSecrets.length > 0) {
+  logEvent("warn", "Missing secrets " + missingSecrets.join(", ") + "; tools that use them will fail");
+}
+
+// Sandbox backend for generated code:
+//   vm      - a vm context in the server process
+//   worker  - a vm context in a worker thread with its own heap limit
+//   process - a vm context in a child process with a heap limit and no file access
+const SANDBOX = process.env.MCP_SANDBOX || ${JSON.stringify(options.sandbox ?? "process")};
+const SANDBOX_MEMORY_MB = envInt("MCP_SANDBOX_MEMORY_MB", 128, 16);
+const SANDBOX_WORKER = path.join(__dirname, "sandbox-worker.js");
+
+if (!["vm", "worker", "process"].includes(SANDBOX)) {
+  console.error("Invalid MCP_SANDBOX: " + SANDBOX + " (expected vm, worker or process)");
+  process.exit(1);
+}
+
+// Run generated code (a handler, orchestration, transform or resource template body) in the
+// sandbox. Each entry in params becomes a parameter of the wrapping function.
+function runHandler(code, params) {
+  throwIfCancelled();
+  return SANDBOX === "vm" ? runInVm(code, params) : runIsolated(code, params);
+}
+
+function runInVm(code, params) {
+  const names = Object.keys(params).join(", ");
+  const sandbox = {
+    ...params,
+${sandboxGlobals(hasNetwork ? "policyFetch" : null, "SECRETS")}
+  };
+
+  const context = vm.createContext(sandbox);
+  const wrappedCode = "(async function(" + names + ") { " + code + " })(" + names + ")";
+  const script = new vm.Script(wrappedCode);
+  return script.runInContext(context, { timeout: SANDBOX_TIMEOUT_MS });
+}
+
+// Start a worker thread or child process running sandbox-worker.js, with an
+// empty environment and a heap limit
+function spawnSandbox() {
+  if (SANDBOX === "worker") {
+    const worker = new Worker(SANDBOX_WORKER, {
+      env: {},
+      resourceLimits: { maxOldGenerationSizeMb: SANDBOX_MEMORY_MB },
+    });
+    return {
+      send: (msg) => worker.postMessage(msg),
+      onMessage: (fn) => worker.on("message", fn),
+      onExit: (fn) => {
+        worker.on("error", (err) => fn(err.message));
+        worker.on("exit", (code) => fn("Sandbox exited with code " + code));
+      },
+      kill: () => worker.terminate(),
+    };
+  }
+
+  const permission = process.allowedNodeEnvironmentFlags.has("--permission") ? "--permission" : "--experimental-permission";
+  const child = fork(SANDBOX_WORKER, [], {
+    env: {},
+    execArgv: [permission, "--allow-fs-read=" + SANDBOX_WORKER, "--max-old-space-size=" + SANDBOX_MEMORY_MB, "--no-warnings"],
+    serialization: "advanced",
+    // In stdio mode stdout carries the protocol, so the child's output goes to stderr
+    stdio: ["ignore", TRANSPORT === "stdio" ? 2 : 1, 2, "ipc"],
+  });
+  return {
+    send: (msg) => child.send(msg),
+    onMessage: (fn) => child.on("message", fn),
+    onExit: (fn) => {
+      child.on("error", (err) => fn(err.message));
+      child.on("exit", (code, signal) => fn("Sandbox exited with " + (signal || "code " + code)));
+    },
+    kill: () => child.kill(),
+  };
+}
+
+${hasNetwork ? `// fetch for isolated sandboxes: the host makes the request and sends back the response
+async function fetchForSandbox(url, opts) {
+  const res = await policyFetch(url, opts);
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: Object.fromEntries(res.headers),
+    body: await res.arrayBuffer(),
+  };
+}
+
+` : ""}// Rebuild an error reported by the sandbox so classifyError sees its category or code
+function sandboxError(error) {
+  if (error.category) return new ToolError(error.category, error.message);
+  return Object.assign(new Error(error.message), { code: error.code });
+}
+
+// Run code in a fresh worker or child process. Function params (callTool) and
+// fetch stay on the host and are called by message passing.
+function runIsolated(code, params) {
+  const data${recordType} = {};
+  const hostFunctions${recordType} = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (typeof value === "function") hostFunctions[key] = value;
+    else data[key] = value;
+  }
+  const functions = Object.keys(hostFunctions);${hasNetwork ? "\n  hostFunctions.fetch = fetchForSandbox;" : ""}
+
+  const sandbox = spawnSandbox();
+  // Messages arrive outside the call's async context, so host calls and logs rejoin it
+  const context = callContext.getStore();
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const finish = (settle, value) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      context?.signal?.removeEventListener("abort", onAbort);
+      sandbox.kill();
+      settle(value);
+    };
+
+    // Cancelling the tool call stops the sandbox
+    const onAbort = () => finish(reject, cancelledError());
+    context?.signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Unlike the vm timeout, this also stops runaway async work
+    const timer = setTimeout(() => {
+      finish(reject, new ToolError("timeout", "Timed out after " + SANDBOX_TIMEOUT_MS + "ms"));
+    }, SANDBOX_TIMEOUT_MS);
+
+    sandbox.onMessage((msg) => callContext.run(context, async () => {
+      if (msg.type === "done") {
+        finish(resolve, msg.value);
+      } else if (msg.type === "error") {
+        finish(reject, sandboxError(msg.error));
+      } else if (msg.type === "log") {
+        logEvent("info", msg.text);
+      } else if (msg.type === "progress") {
+        progress(msg.pct, msg.message);
+      } else if (msg.type === "call") {
+        let reply;
+        try {
+          const fn = hostFunctions[msg.name];
+          if (!fn) throw new Error("Unknown host function: " + msg.name);
+          reply = { type: "reply", id: msg.id, value: await fn(...msg.args) };
+        } catch (err) {
+          const { category, message } = classifyError(err);
+          reply = { type: "reply", id: msg.id, error: { category, message } };
+        }
+        if (!settled) sandbox.send(reply);
+      }
+    }));
+    sandbox.onExit((message) => finish(reject, new ToolError("sandbox_error", message)));
+
+    sandbox.send({ type: "run", code, data, functions, secrets: SECRETS, timeoutMs: SANDBOX_TIMEOUT_MS });
+  });
+}`);
+  parts.push("");
+
+  // Boot handler loader
+  if (boot) {
+    parts.push(`// Boot tool handlers
+const bootHandlers = new Map();
+${boot.tools.map((t, j) =>
+  `bootHandlers.set(${JSON.stringify(t.name)}, ${ts ? `callSource(bootHandler${j}, "args")` : `loadText(${JSON.stringify(`handlers/${t.name}.js`)})`});`
 ).join("\n")}`);
     parts.push("");
 
     parts.push(`async function callBootTool(name, args) {
   const code = bootHandlers.get(name);
-  if (!code) throw new Error("Unknown boot tool: " + name);
-  return runHandler(code, args);
+  if (!code) throw new ToolError("unknown_tool", "Unknown tool: " + name);
+  return normalizeResult(await runHandler(code, { args }));
 }`);
     parts.push("");
   }
 
-  // Mod dispatch
-  if (mod) {
-    // Load transforms
-    if (mod.pass_through_tools.some(t => t.input_transform_code || t.output_transform_code)) {
-      parts.push(`// Mod transforms
-const transforms = new Map();
-${mod.pass_through_tools.filter(t => t.input_transform_code || t.output_transform_code).map(t =>
-  `transforms.set(${JSON.stringify(t.exposed_name)}, JSON.parse(readFileSync(path.join(__dirname, "transforms", ${JSON.stringify(t.exposed_name + ".json")}), "utf-8")));`
-).join("\n")}`);
-      parts.push("");
-    }
+  // Upstream proxy for pipelines rooted at a third-party MCP server
+  if (upstream) {
+    parts.push(`// Upstream MCP server (root of the pipeline)
+const UPSTREAM_COMMAND = process.env.UPSTREAM_COMMAND || ${JSON.stringify(upstream.command ?? "")};
+const UPSTREAM_URL = process.env.UPSTREAM_URL || ${JSON.stringify(upstream.url ?? "")};
+
+// A stdio upstream is a third-party process: it gets the SDK's default environment
+// (PATH, HOME and the like) plus the variables the export names, never the server's
+// API keys, OAuth settings or secrets
+const UPSTREAM_ENV = ${JSON.stringify(options.upstreamEnv ?? [])};
+
+function upstreamEnvironment() {
+  const env = getDefaultEnvironment();
+  for (const name of UPSTREAM_ENV) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  return env;
+}
 
-    // Load orchestrations
-    if (mod.synthetic_tools.length > 0) {
-      parts.push(`// Synthetic tool orchestrations
-const orchestrations = new Map();
-${mod.synthetic_tools.map(t =>
-  `orchestrations.set(${JSON.stringify(t.name)}, readFileSync(path.join(__dirname, "orchestrations", ${JSON.stringify(t.name + ".js")}), "utf-8"));`
-).join("\n")}`);
-      parts.push("");
+// Split a command line into argv, honoring single and double quotes
+function splitCommand(command) {
+  const argv = [];
+  let current = "";
+  let quote = null;
+  let inToken = false;
+  for (const ch of command) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (/\\s/.test(ch)) {
+      if (inToken) argv.push(current);
+      current = "";
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
     }
+  }
+  if (inToken) argv.push(current);
+  return argv;
+}
 
-    // Dispatch map: exposed_name → upstream_name
-    parts.push(`const toolRouting = new Map();`);
-    for (const t of mod.pass_through_tools) {
-      parts.push(`toolRouting.set(${JSON.stringify(t.exposed_name)}, ${JSON.stringify(t.upstream_name)});`);
-    }
+function createUpstreamTransport() {
+  // An explicit UPSTREAM_URL wins over the exported stdio command
+  if (process.env.UPSTREAM_URL || (UPSTREAM_URL && !process.env.UPSTREAM_COMMAND)) {
+    return new StreamableHTTPClientTransport(new URL(UPSTREAM_URL));
+  }
+  if (UPSTREAM_COMMAND) {
+    const [command, ...args] = splitCommand(UPSTREAM_COMMAND);
+    return new StdioClientTransport({ command, args, env: upstreamEnvironment(), stderr: "inherit" });
+  }
+  throw new Error("No upstream MCP server configured: set UPSTREAM_COMMAND or UPSTREAM_URL");
+}
+
+let upstreamClientPromise = null;
+
+function getUpstreamClient() {
+  if (!upstreamClientPromise) {
+    upstreamClientPromise = (async () => {
+      const client = new Client({ name: "exported-mcp-server", version: "1.0.0" }, { capabilities: {} });
+      client.onclose = () => { upstreamClientPromise = null; };
+      await client.connect(createUpstreamTransport());
+      return client;
+    })();
+    // Allow a later call to retry after a failed connection
+    upstreamClientPromise.catch(() => { upstreamClientPromise = null; });
+  }
+  return upstreamClientPromise;
+}
+
+async function callUpstreamTool(name, args) {
+  try {
+    const client = await getUpstreamClient();
+    const store = callContext.getStore();
+    // Pass cancellation on, and relay the upstream's progress when it reports a total
+    return await client.callTool({ name, arguments: args }, undefined, {
+      signal: store?.signal,
+      onprogress: (p) => {
+        if (p.total) store?.progress?.((p.progress / p.total) * 100, p.message);
+      },
+    });
+  } catch (err) {
+    throw new ToolError("upstream_error", err && err.message ? err.message : String(err));
+  }
+}`);
     parts.push("");
   }
 
-  // Main dispatch function
-  parts.push(`async function dispatchTool(name, args) {`);
+  // Mod layers: each stage resolves its tools against the layer below it
+  if (mods.length > 0) {
+    parts.push(`// What to do when a mod transform throws:
+//   fail        - the call fails with a transform_error result
+//   passthrough - continue with the untransformed arguments or result
+//   fallback    - return MCP_TRANSFORM_FALLBACK_TEXT instead of any tool output
+const TRANSFORM_ERRORS = process.env.MCP_TRANSFORM_ERRORS || ${JSON.stringify(options.transformErrors ?? "fail")};
+const TRANSFORM_FALLBACK_TEXT = process.env.MCP_TRANSFORM_FALLBACK_TEXT || "This tool is temporarily unavailable.";
+
+if (!["fail", "passthrough", "fallback"].includes(TRANSFORM_ERRORS)) {
+  console.error("Invalid MCP_TRANSFORM_ERRORS: " + TRANSFORM_ERRORS + " (expected fail, passthrough or fallback)");
+  process.exit(1);
+}
 
-  const hasSynthetic = mod?.synthetic_tools && mod.synthetic_tools.length > 0;
-  const hasTransforms = mod?.pass_through_tools?.some(t => t.input_transform_code || t.output_transform_code);
+// Apply the transform error policy; returns a result to short-circuit the call, or null to continue
+function handleTransformError(name, phase, err) {
+  const message = phase + " transform failed for " + name + ": " + classifyError(err).message;
+  if (TRANSFORM_ERRORS === "fail") throw new ToolError("transform_error", message);
 
-  if (mod) {
-    if (hasSynthetic) {
-      parts.push(`  // Synthetic tools
-  if (orchestrations.has(name)) {
-    const code = orchestrations.get(name);
-    const callTool = async (n, a) => callBootTool(n, a);
-    const sandbox = {
-      args, callTool,
-      JSON, Math, String, Number, Boolean, Array, Object, Map, Set,
-      Date, RegExp, parseInt, parseFloat, isNaN, isFinite,
-      structuredClone, console: { log: console.log },
-      Promise,${hasNetwork ? "\n      fetch: whitelistedFetch," : ""}
-    };
-    const context = vm.createContext(sandbox);
-    const wrappedCode = "(async function(args, callTool) { " + code + " })(args, callTool)";
-    const script = new vm.Script(wrappedCode);
-    return script.runInContext(context, { timeout: SANDBOX_TIMEOUT_MS });
-  }`);
+  logEvent("warn", message, { policy: TRANSFORM_ERRORS });
+  if (TRANSFORM_ERRORS === "fallback") {
+    return { content: [{ type: "text", text: TRANSFORM_FALLBACK_TEXT }] };
+  }
+  return null;
+}
+
+// Mod layers in pipeline order (innermost first)
+const modLayers = [];`);
+    parts.push("");
+
+    mods.forEach((mod, i) => {
+      const transformsDir = modFileDir("transforms", i, mods.length);
+      const orchDir = modFileDir("orchestrations", i, mods.length);
+      const routing = mod.pass_through_tools.map(t => [t.exposed_name, t.upstream_name]);
+      const transformEntries = mod.pass_through_tools.filter(hasTransforms).map((t, j) => {
+        if (!ts) {
+          return `    [${JSON.stringify(t.exposed_name)}, JSON.parse(loadText(${JSON.stringify(`${transformsDir}/${t.exposed_name}.json`)}))],`;
+        }
+        const id = `mod${i + 1}Transform${j}`;
+        const input = t.input_transform_code ? `callSource(${id}.inputTransform, "args")` : "null";
+        const output = t.output_transform_code ? `callSource(${id}.outputTransform, "result")` : "null";
+        return `    [${JSON.stringify(t.exposed_name)}, { input_transform_code: ${input}, output_transform_code: ${output} }],`;
+      });
+      const orchEntries = mod.synthetic_tools.map((t, j) =>
+        `    [${JSON.stringify(t.name)}, ${ts ? `callSource(mod${i + 1}Orchestration${j}, "args, callTool")` : `loadText(${JSON.stringify(`${orchDir}/${t.name}.js`)})`}],`
+      );
+
+      parts.push(`// Mod stage ${i + 1} (v${mod.version})
+modLayers.push({
+  routing: new Map(${JSON.stringify(routing)}),
+  transforms: new Map([${transformEntries.length > 0 ? "\n" + transformEntries.join("\n") + "\n  " : ""}]),
+  orchestrations: new Map([${orchEntries.length > 0 ? "\n" + orchEntries.join("\n") + "\n  " : ""}]),
+});`);
       parts.push("");
-    }
+    });
+
+    parts.push(`// Maximum nesting of orchestration callTool calls, to stop runaway recursion
+const MAX_CALL_DEPTH = envInt("MCP_MAX_CALL_DEPTH", 8, 1);
+
+function layerExposes(layer, name) {
+  return layer.orchestrations.has(name) || layer.routing.has(name);
+}
+
+async function dispatchLayer(level, name, args, depth = 0) {
+  if (level < 0) return ${rootCall}(name, args);
+
+  const layer = modLayers[level];
+  const callLower = (n, a) => dispatchLayer(level - 1, n, a, depth);
 
-    // Check routed tools (pass-through and modified)
-    if (hasTransforms) {
-      parts.push(`  // Pass-through and modified tools
-  const upstreamName = toolRouting.get(name);
+  // Synthetic tools. Their callTool resolves against the tools this stage
+  // exposes (transforms included), falling back to the layer below.
+  const orchestration = layer.orchestrations.get(name);
+  if (orchestration !== undefined) {
+    const callTool = (n, a) => {
+      throwIfCancelled();
+      if (depth + 1 > MAX_CALL_DEPTH) {
+        throw new ToolError("recursion_limit", "Tool call depth exceeded " + MAX_CALL_DEPTH + " calling " + n + " from " + name);
+      }
+      const attributes = { "gen_ai.tool.name": n, "mcp.caller": name, "mcp.call.depth": depth + 1 };
+      return withSpan("callTool " + n, SPAN_KIND.internal, attributes, () =>
+        dispatchLayer(layerExposes(layer, n) ? level : level - 1, n, a, depth + 1));
+    };
+    return normalizeResult(await runHandler(orchestration, { args, callTool }));
+  }
+
+  // Pass-through and modified tools
+  const upstreamName = layer.routing.get(name);
   if (upstreamName !== undefined) {
     let callArgs = args;
 
     // Apply input transform if present
-    const transform = transforms.get(name);
+    const transform = layer.transforms.get(name);
     if (transform && transform.input_transform_code) {
       try {
-        const fn = new Function("args", transform.input_transform_code);
-        callArgs = fn(args);
+        callArgs = await withSpan("transform input " + name, SPAN_KIND.internal, { "gen_ai.tool.name": name }, () =>
+          runHandler(transform.input_transform_code, { args }));
       } catch (err) {
-        console.error("Input transform error for " + name + ": " + err);
+        const fallback = handleTransformError(name, "input", err);
+        if (fallback) return fallback;
       }
     }
 
-    // Call boot handler
-    let result = await callBootTool(upstreamName, callArgs);
+    // Call the layer below
+    let result = await callLower(upstreamName, callArgs);
 
     // Apply output transform if present
     if (transform && transform.output_transform_code) {
       try {
-        const fn = new Function("result", transform.output_transform_code);
-        result = fn(result);
+        result = await withSpan("transform output " + name, SPAN_KIND.internal, { "gen_ai.tool.name": name }, () =>
+          runHandler(transform.output_transform_code, { result }));
       } catch (err) {
-        console.error("Output transform error for " + name + ": " + err);
+        const fallback = handleTransformError(name, "output", err);
+        if (fallback) return fallback;
       }
     }
 
-    return result;
-  }`);
-      parts.push("");
-    } else {
-      // Pass-through only (no transforms)
-      parts.push(`  // Pass-through tools
-  const upstreamName = toolRouting.get(name);
-  if (upstreamName !== undefined) {
-    return callBootTool(upstreamName, args);
-  }`);
-      parts.push("");
-    }
+    return normalizeResult(result);
   }
 
-  if (boot && !mod) {
-    // Boot-only: dispatch directly
-    parts.push(`  return callBootTool(name, args);`);
-  } else {
-    parts.push(`  return { content: [{ type: "text", text: "Unknown tool: " + name }], isError: true };`);
+  throw new ToolError("unknown_tool", "Unknown tool: " + name);
+}`);
+    parts.push("");
   }
 
-  parts.push(`}`);
+  // Main dispatch function
+  if (mods.length > 0) {
+    parts.push(`async function dispatchTool(name, args) {
+  return withSpan("dispatchTool " + name, SPAN_KIND.internal, { "gen_ai.tool.name": name }, () =>
+    dispatchLayer(modLayers.length - 1, name, args));
+}`);
+  } else if (boot || upstream) {
+    // No mod stage: dispatch directly to the root
+    parts.push(`async function dispatchTool(name, args) {
+  return withSpan("dispatchTool " + name, SPAN_KIND.internal, { "gen_ai.tool.name": name }, () =>
+    ${rootCall}(name, args));
+}`);
+  } else {
+    parts.push(`async function dispatchTool(name, args) {
+  throw new ToolError("unknown_tool", "Unknown tool: " + name);
+}`);
+  }
   parts.push("");
 
   // Tool definitions for listing
-  parts.push(`const TOOLS = ${JSON.stringify(exposedTools, null, 2)};`);
+  const toolsType = ts ? ": Array<{ name: string; description: string; inputSchema: any; outputSchema?: any }>" : "";
+  parts.push(`const TOOLS${toolsType} = ${JSON.stringify(exposedTools, null, 2)};`);
+  parts.push("");
+
+  if (proxyToolList) {
+    parts.push(`async function listTools() {
+  const client = await getUpstreamClient();
+  const { tools } = await client.listTools();
+  return tools;
+}`);
+  } else {
+    parts.push(`async function listTools() {
+  return TOOLS;
+}`);
+  }
+  parts.push("");
+
+  // Argument validation against each exposed tool's inputSchema
+  parts.push(`const TOOL_SCHEMAS = new Map(TOOLS.map(t => [t.name, t.inputSchema]));
+
+function typeOf(value) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(type, value) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function fieldPath(base, key) {
+  if (typeof key === "number") return base + "[" + key + "]";
+  return base ? base + "." + key : key;
+}
+
+// Schema patterns, compiled once. A pattern that is invalid with the "u" flag (legal
+// in some upstream schemas) is kept as its SyntaxError and fails validation of its field.
+const PATTERNS = new Map();
+
+function compilePattern(source) {
+  if (!PATTERNS.has(source)) {
+    try {
+      PATTERNS.set(source, new RegExp(source, "u"));
+    } catch (err) {
+      PATTERNS.set(source, err);
+    }
+  }
+  return PATTERNS.get(source);
+}
+
+function compileSchemaPatterns(tool, schema) {
+  if (!schema || typeof schema !== "object") return;
+  if (typeof schema.pattern === "string" && compilePattern(schema.pattern) instanceof Error) {
+    logEvent("warn", "Invalid pattern " + schema.pattern + " in the input schema; arguments it applies to are rejected", { tool });
+  }
+  for (const value of Object.values(schema)) compileSchemaPatterns(tool, value);
+}
+
+for (const [tool, schema] of TOOL_SCHEMAS) compileSchemaPatterns(tool, schema);
+
+// Validate a value against the JSON Schema subset tools use; returns the first error
+function validateValue(schema, value, at) {
+  if (!schema || typeof schema !== "object") return null;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(t, value))) {
+      return { field: at, message: "must be " + types.join(" or ") + " (got " + typeOf(value) + ")" };
+    }
+  }
+  if (schema.const !== undefined && !sameValue(value, schema.const)) {
+    return { field: at, message: "must equal " + JSON.stringify(schema.const) };
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(v => sameValue(v, value))) {
+    return { field: at, message: "must be one of " + schema.enum.map(v => JSON.stringify(v)).join(", ") };
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      return { field: at, message: "must be at least " + schema.minLength + " characters" };
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      return { field: at, message: "must be at most " + schema.maxLength + " characters" };
+    }
+    if (typeof schema.pattern === "string") {
+      const pattern = compilePattern(schema.pattern);
+      if (pattern instanceof Error) {
+        return { field: at, message: "cannot be checked: the schema's pattern " + schema.pattern + " is invalid" };
+      }
+      if (!pattern.test(value)) return { field: at, message: "must match pattern " + schema.pattern };
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      return { field: at, message: "must be >= " + schema.minimum };
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      return { field: at, message: "must be <= " + schema.maximum };
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      return { field: at, message: "must be > " + schema.exclusiveMinimum };
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      return { field: at, message: "must be < " + schema.exclusiveMaximum };
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      return { field: at, message: "must have at least " + schema.minItems + " items" };
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      return { field: at, message: "must have at most " + schema.maxItems + " items" };
+    }
+    if (schema.items && typeof schema.items === "object" && !Array.isArray(schema.items)) {
+      for (let i = 0; i < value.length; i++) {
+        const error = validateValue(schema.items, value[i], fieldPath(at, i));
+        if (error) return error;
+      }
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) return { field: fieldPath(at, key), message: "is required" };
+    }
+    const properties = schema.properties || {};
+    for (const [key, v] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        const error = validateValue(properties[key], v, fieldPath(at, key));
+        if (error) return error;
+      } else if (schema.additionalProperties === false) {
+        return { field: fieldPath(at, key), message: "is not an allowed property" };
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        const error = validateValue(schema.additionalProperties, v, fieldPath(at, key));
+        if (error) return error;
+      }
+    }
+  }
+
+  for (const sub of schema.allOf || []) {
+    const error = validateValue(sub, value, at);
+    if (error) return error;
+  }
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (Array.isArray(alternatives) && !alternatives.some(sub => !validateValue(sub, value, at))) {
+    return { field: at, message: "does not match any of the allowed schemas" };
+  }
+
+  return null;
+}
+
+// Returns an isError result naming the offending field, or null when the arguments are valid
+function validateToolArgs(name, args) {
+  const schema = TOOL_SCHEMAS.get(name);
+  if (!schema) return null;
+
+  const error = validateValue(schema, args, "");
+  if (!error) return null;
+
+  const field = error.field || "arguments";
+  return {
+    content: [{ type: "text", text: "Invalid arguments for " + name + ": " + field + " " + error.message }],
+    _meta: { error: { category: "invalid_arguments", field, message: error.message } },
+    isError: true,
+  };
+}`);
+  parts.push("");
+
+  // Result normalization into CallToolResult shape
+  parts.push(`const TOOL_OUTPUT_SCHEMAS = new Map(TOOLS.filter(t => t.outputSchema).map(t => [t.name, t.outputSchema]));
+
+function isPlainObject(value) {
+  return typeOf(value) === "object";
+}
+
+function toContentItem(item) {
+  if (typeof item === "string") return { type: "text", text: item };
+  if (isPlainObject(item) && typeof item.type === "string") return item;
+  return { type: "text", text: JSON.stringify(item) };
+}
+
+// Parse single-text-item content as a JSON object for structuredContent
+function parseStructured(content) {
+  if (content.length !== 1 || content[0].type !== "text") return undefined;
+  try {
+    const parsed = JSON.parse(content[0].text);
+    return isPlainObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Wrap a handler's return value into a CallToolResult. Existing results pass
+// through; with an output schema, object values also become structuredContent.
+function normalizeResult(value, outputSchema = null) {
+  let result;
+  if (isPlainObject(value) && Array.isArray(value.content)) {
+    result = { ...value, content: value.content.map(toContentItem) };
+  } else if (isPlainObject(value) && value.structuredContent !== undefined) {
+    result = { ...value, content: [{ type: "text", text: JSON.stringify(value.structuredContent) }] };
+  } else if (typeof value === "string") {
+    result = { content: [{ type: "text", text: value }] };
+  } else if (value === undefined) {
+    result = { content: [] };
+  } else {
+    result = { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+    if (outputSchema && isPlainObject(value)) result.structuredContent = value;
+  }
+
+  if (outputSchema && result.structuredContent === undefined && !result.isError) {
+    const structured = parseStructured(result.content);
+    if (structured !== undefined) result.structuredContent = structured;
+  }
+  return result;
+}`);
   parts.push("");
 
   // UI resources
@@ -401,150 +2450,784 @@ const uiResources = new Map();
 ${ui.ui_resources.map(r =>
   `uiResources.set(${JSON.stringify(r.resource_uri)}, {
   toolName: ${JSON.stringify(r.tool_name)},
-  html: readFileSync(path.join(__dirname, "ui", ${JSON.stringify(r.tool_name + ".html")}), "utf-8"),
+  html: loadText(${JSON.stringify(`ui/${r.tool_name}.html`)}),
 });`
 ).join("\n")}`);
     parts.push("");
   }
 
-  // HTTP server
-  parts.push(`const PORT = parseInt(process.env.PORT || "8000", 10);
-const MCP_API_KEY = process.env.MCP_API_KEY;
+  // Static resources and resource templates from the stages
+  if (resources.length > 0) {
+    parts.push(`// Static resources; their contents are in resources.json
+const STATIC_RESOURCES = new Map${ts ? "<string, any>" : ""}(JSON.parse(loadText("resources.json")).map(r => [r.uri, r]));`);
+    parts.push("");
+  }
 
-const httpServer = http.createServer(async (req, res) => {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, mcp-session-id, Authorization");
+  if (templates.length > 0) {
+    const templateDefs = templates.map(t => ({
+      name: t.name,
+      uriTemplate: t.uri_template,
+      ...(t.description ? { description: t.description } : {}),
+      ...(t.mime_type ? { mimeType: t.mime_type } : {}),
+    }));
+    parts.push(`// Resource template handlers, run in the sandbox with \`args\` (the template variables) and \`uri\`
+const resourceTemplateCode = new Map();
+${templates.map((t, j) =>
+  `resourceTemplateCode.set(${JSON.stringify(t.name)}, ${ts ? `callSource(resourceTemplate${j}, "args, uri")` : `loadText(${JSON.stringify(`resource-templates/${t.name}.js`)})`});`
+).join("\n")}
+
+// RFC 6570 templates as regexes: {var} matches within a path segment, {+var} any text
+function compileUriTemplate(template) {
+  const names = [];
+  const source = template.split(/(\\{\\+?[\\w.]+\\})/).map((part, i) => {
+    if (i % 2 === 0) return part.replace(/[.*+?^$()|[\\]\\\\{}]/g, "\\\\$&");
+    const reserved = part[1] === "+";
+    names.push(part.slice(reserved ? 2 : 1, -1));
+    return reserved ? "(.+)" : "([^/?#]+)";
+  }).join("");
+  return { names, regex: new RegExp("^" + source + "$") };
+}
 
-  if (req.method === "OPTIONS") {
-    res.writeHead(204);
-    res.end();
-    return;
+const RESOURCE_TEMPLATES${ts ? ": Array<Record<string, any>>" : ""} = ${JSON.stringify(templateDefs, null, 2)}.map(t => ({ ...t, ...compileUriTemplate(t.uriTemplate) }));
+
+// A template handler's result as resource contents: a string is text, an object may
+// set text or blob (base64) and mime_type, anything else is returned as JSON
+function resourceContents(uri, value, mimeType) {
+  if (typeof value === "string") return { uri, mimeType, text: value };
+  const type = value?.mime_type ?? mimeType;
+  if (typeof value?.blob === "string") return { uri, mimeType: type, blob: value.blob };
+  if (typeof value?.text === "string") return { uri, mimeType: type, text: value.text };
+  return { uri, mimeType: "application/json", text: JSON.stringify(value) };
+}`);
+    parts.push("");
   }
 
-  if (MCP_API_KEY && req.url !== "/health") {
-    const auth = req.headers["authorization"];
-    if (!auth || auth !== "Bearer " + MCP_API_KEY) {
-      res.writeHead(401, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ error: "Unauthorized" }));
-      return;
+  if (hasResources) {
+    const listed = [
+      ...(uiResourceCount > 0 ? [`...Array.from(uiResources.entries()).map(([uri, r]) => ({
+      uri,
+      name: r.toolName + " UI",
+      description: "Generated interactive UI for " + r.toolName,
+      mimeType: "text/html",
+    })),`] : []),
+      ...(resources.length > 0 ? ["...Array.from(STATIC_RESOURCES.values()).map(({ text, blob, ...resource }) => resource),"] : []),
+    ];
+    parts.push(`function listResources() {
+  return [${listed.length > 0 ? "\n    " + listed.join("\n    ") + "\n  " : ""}];
+}
+
+// The MCP spec's error code for an unknown resource URI (the SDK's ErrorCode lacks it)
+const RESOURCE_NOT_FOUND = -32002;
+
+async function readResource(uri) {${uiResourceCount > 0 ? `
+  const ui = uiResources.get(uri);
+  if (ui) return [{ uri, mimeType: "text/html", text: ui.html }];` : ""}${resources.length > 0 ? `
+  const resource = STATIC_RESOURCES.get(uri);
+  if (resource) {
+    const { name, description, ...contents } = resource;
+    return [contents];
+  }` : ""}${templates.length > 0 ? `
+  for (const template of RESOURCE_TEMPLATES) {
+    const match = template.regex.exec(uri);
+    if (!match) continue;
+    try {
+      const args = Object.fromEntries(template.names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+      const value = await runHandler(resourceTemplateCode.get(template.name), { args, uri });
+      return [resourceContents(uri, value, template.mimeType)];
+    } catch (err) {
+      throw new Error("Reading " + uri + " failed: " + classifyError(err).message);
     }
+  }` : ""}
+  throw new McpError(RESOURCE_NOT_FOUND, "Resource not found", { uri });
+}`);
+    parts.push("");
   }
 
-  if (req.method === "POST" && (req.url === "/mcp" || req.url === "/")) {
-    const mcpServer = new Server(
-      { name: "exported-mcp-server", version: "1.0.0" },
-      { capabilities: { tools: {}${ui ? ", resources: {}" : ""} } },
-    );
+  if (prompts.length > 0) {
+    const promptDefs = prompts.map(p => ({
+      name: p.name,
+      ...(p.description ? { description: p.description } : {}),
+      ...(p.arguments ? { arguments: p.arguments } : {}),
+      messages: p.messages,
+    }));
+    parts.push(`// Prompts. {{argument}} placeholders in message text are filled in by prompts/get.
+const PROMPTS${ts ? ": Array<Record<string, any>>" : ""} = ${JSON.stringify(promptDefs, null, 2)};
+
+// Only the arguments' own keys are filled in, so {{constructor}} and the like render empty.
+function getPrompt(name, args = {}) {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) throw new McpError(ErrorCode.InvalidParams, "Unknown prompt: " + name);
+  const missing = (prompt.arguments ?? []).filter(a => a.required && !Object.hasOwn(args, a.name)).map(a => a.name);
+  if (missing.length > 0) throw new McpError(ErrorCode.InvalidParams, "Prompt " + name + " needs argument(s): " + missing.join(", "));
+  return {
+    ...(prompt.description ? { description: prompt.description } : {}),
+    messages: prompt.messages.map(m => ({
+      role: m.role,
+      content: { type: "text", text: m.text.replace(/\\{\\{\\s*([\\w.-]+)\\s*\\}\\}/g, (_, key) => Object.hasOwn(args, key) ? args[key] : "") },
+    })),
+  };
+}`);
+    parts.push("");
+  }
+
+  // MCP server factory, shared by the HTTP and stdio transports
+  parts.push(`// API keys: MCP_API_KEY grants every tool. Named keys come from MCP_API_KEYS (JSON)
+// or keys.json in the project directory (MCP_API_KEYS_FILE overrides the path). Each
+// entry is { name, key | sha256, tools? }; tools restricts the key to those tools.
+function hashKey(key) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function loadApiKeys() {
+  const keys = new Map();
+  if (process.env.MCP_API_KEY) keys.set(hashKey(process.env.MCP_API_KEY), { name: "default", tools: null });
+
+  const file = process.env.MCP_API_KEYS_FILE || path.join(PROJECT_DIR, "keys.json");
+  const source = process.env.MCP_API_KEYS ? "MCP_API_KEYS" : file;
+  const invalid = (message) => {
+    console.error("Invalid API keys in " + source + ": " + message);
+    process.exit(1);
+  };
+  let config${anyType} = null;
+  try {
+    if (process.env.MCP_API_KEYS) config = JSON.parse(process.env.MCP_API_KEYS);
+    else if (existsSync(file)) config = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (err) {
+    invalid(err.message);
+  }
+  const entries = Array.isArray(config) ? config : (config?.keys ?? []);
+
+${proxyToolList ? "" : `
+  const exposed = new Set(TOOLS.map(t => t.name));`}
+  for (const entry of entries) {
+    const hash = entry.sha256 ? String(entry.sha256).toLowerCase() : (entry.key ? hashKey(entry.key) : null);
+    if (!entry.name || !hash) invalid("entries need a name and a key or sha256");
+    if (!/^[0-9a-f]{64}$/.test(hash)) invalid("API key " + entry.name + " has an invalid sha256");
+    const tools = Array.isArray(entry.tools) ? new Set${ts ? "<string>" : ""}(entry.tools) : null;${proxyToolList ? "" : `
+    const unknown = tools ? [...tools].filter(t => !exposed.has(t)) : [];
+    if (unknown.length > 0) {
+      logEvent("warn", "API key " + entry.name + " lists unknown tools: " + unknown.join(", "));
+    }`}
+    keys.set(hash, { name: entry.name, tools });
+  }
+  return keys;
+}
+
+const API_KEYS = loadApiKeys();
+
+// The key presented on a request, or null if it matches none. Every key's digest is
+// compared in constant time, without stopping at a match, so timing reveals nothing.
+function findApiKey(req) {
+  const auth = req.headers["authorization"];
+  if (!auth || !auth.startsWith("Bearer ")) return null;
+  const digest = Buffer.from(hashKey(auth.slice("Bearer ".length)), "hex");
+  let found = null;
+  for (const [hash, apiKey] of API_KEYS) {
+    if (crypto.timingSafeEqual(digest, Buffer.from(hash, "hex")) && !found) found = apiKey;
+  }
+  return found;
+}`);
+  parts.push("");
+
+  if (options.oauth) {
+    parts.push(generateOAuthJs(options.oauth, recordType));
+    parts.push("");
+  }
+
+  parts.push(`// Why a client may not call a tool, or null if it may. Stdio servers have no client.
+function deniedReason(client, name) {
+  if (!client) return null;
+  if (client.tools && !client.tools.has(name)) return "API key " + client.name + " may not call " + name;${options.oauth ? `
+  if (client.scopes) {
+    const missing = (OAUTH.toolScopes?.[name] ?? []).filter(scope => !client.scopes.has(scope));
+    if (missing.length > 0) return "Token lacks scope " + missing.join(", ") + " for " + name;
+  }` : ""}
+  return null;
+}`);
+  parts.push("");
+
+  parts.push(`// Prometheus metrics per tool, served at /metrics
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const toolMetrics = new Map();
+
+function recordToolCall(name, category, seconds) {
+  let metrics = toolMetrics.get(name);
+  if (!metrics) {
+    metrics = { calls: 0, errors: new Map(), buckets: LATENCY_BUCKETS.map(() => 0), sum: 0 };
+    toolMetrics.set(name, metrics);
+  }
+  metrics.calls++;
+  if (category) metrics.errors.set(category, (metrics.errors.get(category) ?? 0) + 1);
+  metrics.sum += seconds;
+  LATENCY_BUCKETS.forEach((le, i) => {
+    if (seconds <= le) metrics.buckets[i]++;
+  });
+}
+
+// Prometheus text exposition format
+function renderMetrics() {
+  const label = (value) => JSON.stringify(String(value));
+  const lines = [
+    "# HELP mcp_tool_calls_total Tool calls, by tool.",
+    "# TYPE mcp_tool_calls_total counter",
+  ];
+  for (const [name, m] of toolMetrics) lines.push("mcp_tool_calls_total{tool=" + label(name) + "} " + m.calls);
+  lines.push("# HELP mcp_tool_errors_total Failed tool calls, by tool and error category.");
+  lines.push("# TYPE mcp_tool_errors_total counter");
+  for (const [name, m] of toolMetrics) {
+    for (const [category, count] of m.errors) {
+      lines.push("mcp_tool_errors_total{tool=" + label(name) + ",category=" + label(category) + "} " + count);
+    }
+  }
+  lines.push("# HELP mcp_tool_call_duration_seconds Tool call latency, by tool.");
+  lines.push("# TYPE mcp_tool_call_duration_seconds histogram");
+  for (const [name, m] of toolMetrics) {
+    LATENCY_BUCKETS.forEach((le, i) => {
+      lines.push("mcp_tool_call_duration_seconds_bucket{tool=" + label(name) + ",le=" + label(le) + "} " + m.buckets[i]);
+    });
+    lines.push("mcp_tool_call_duration_seconds_bucket{tool=" + label(name) + ",le=\\"+Inf\\"} " + m.calls);
+    lines.push("mcp_tool_call_duration_seconds_sum{tool=" + label(name) + "} " + m.sum);
+    lines.push("mcp_tool_call_duration_seconds_count{tool=" + label(name) + "} " + m.calls);
+  }
+  lines.push("# HELP mcp_cache_hits_total Tool results served from the cache.");
+  lines.push("# TYPE mcp_cache_hits_total counter");
+  lines.push("mcp_cache_hits_total " + cacheStats.hits);
+  lines.push("# HELP mcp_cache_misses_total Cacheable tool calls that missed the cache.");
+  lines.push("# TYPE mcp_cache_misses_total counter");
+  lines.push("mcp_cache_misses_total " + cacheStats.misses);
+  return lines.join("\\n") + "\\n";
+}
+
+async function runToolCall(client, name, callArgs) {
+  const denied = deniedReason(client, name);
+  if (denied) return toolErrorResult(name, "forbidden", denied);
+  const invalid = validateToolArgs(name, callArgs);
+  if (invalid) return invalid;
+  try {
+    return await withCache(name, callArgs, () => callWithLimits(name, async () =>
+      normalizeResult(await dispatchTool(name, callArgs), TOOL_OUTPUT_SCHEMAS.get(name))));
+  } catch (err) {
+    const { category, message } = classifyError(err);
+    return toolErrorResult(name, category, message);
+  }
+}
 
-    mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS.map(t => {
-        const entry = { name: t.name, description: t.description, inputSchema: t.inputSchema };${ui ? `
+// Notifications for progress(pct, message) when the client sent a progressToken.
+// Updates that do not increase pct are dropped, as the protocol requires.
+function progressReporter(progressToken, extra) {
+  if (progressToken === undefined) return null;
+  let last = -1;
+  return (pct, message) => {
+    const value = Math.min(Number(pct), 100);
+    if (!(value > last)) return;
+    last = value;
+    const params = { progressToken, progress: value, total: 100, ...(message !== undefined ? { message: String(message) } : {}) };
+    extra.sendNotification({ method: "notifications/progress", params })
+      .catch((err) => logEvent("warn", "progress notification failed", { error: err.message }));
+  };
+}
+
+// Run a tools/call in its own context and server span (continuing the caller's trace
+// when a traceparent came with it), then log and record its outcome. The context
+// also carries the call's cancellation signal and progress reporter.
+function handleToolCall(name, args, { client, requestId, traceparent, signal, progress }${recordType}) {
+  const context = { requestId: requestId || crypto.randomUUID(), tool: name, span: parseTraceparent(traceparent), signal, progress };
+  const attributes = { "mcp.method.name": "tools/call", "gen_ai.tool.name": name, "enduser.id": client?.name };
+  return callContext.run(context, () => withSpan("tools/call " + name, SPAN_KIND.server, attributes, async () => {
+    const started = performance.now();
+    const result${anyType} = await runToolCall(client, name, args || {});
+    const seconds = (performance.now() - started) / 1000;
+    const error = result.isError ? (result._meta?.error ?? { category: "handler_error" }) : null;
+    recordToolCall(name, error?.category, seconds);
+    logEvent(error ? "error" : "info", "tool call", {
+      client: client?.name,
+      durationMs: Math.round(seconds * 10000) / 10,
+      outcome: error ? "error" : "ok",
+      ...(error ? { category: error.category, error: error.message } : {}),
+    });
+    return result;
+  }));
+}`);
+  parts.push("");
+
+  parts.push(`// The HTTP request being served ({ client, requestId, traceparent }). With sessions one
+// server handles many requests, so its handlers look these up per request.
+const httpRequestContext = new AsyncLocalStorage${ts ? "<Record<string, any>>" : ""}();
+
+// Tools are filtered and enforced per client (API key${options.oauth ? " or access token" : ""}).
+// requestId and traceparent tie the HTTP request to the tool calls it carries; stdio
+// calls get their own request ID and may carry a traceparent in params._meta.
+function createMcpServer() {
+  const mcpServer = new Server(
+    { name: "exported-mcp-server", version: "1.0.0" },
+    { capabilities: { tools: {}${hasResources ? ", resources: {}" : ""}${prompts.length > 0 ? ", prompts: {}" : ""} } },
+  );
+
+  mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
+    const { client } = httpRequestContext.getStore() ?? {};
+    return {
+      tools: (await listTools()).filter(t => !deniedReason(client, t.name)).map(t => {
+        const entry = {
+          name: t.name,
+          description: t.description,
+          inputSchema: t.inputSchema,
+          ...(t.outputSchema ? { outputSchema: t.outputSchema } : {}),
+        };${ui ? `
         const uri = toolResourceUris[t.name];
-        if (uri) entry._meta = { ui: { resourceUri: uri } };` : ""}
+        if (uri) return { ...entry, _meta: { ui: { resourceUri: uri } } };` : ""}
         return entry;
       }),
-    }));
+    };
+  });
+
+  mcpServer.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+    const { client, requestId, traceparent } = httpRequestContext.getStore() ?? {};
+    const { name, arguments: args, _meta } = request.params;
+    return handleToolCall(name, args, {
+      client,
+      requestId,
+      traceparent: traceparent ?? _meta?.traceparent,
+      signal: extra.signal,
+      progress: progressReporter(_meta?.progressToken, extra),
+    });
+  });`);
+
+  if (hasResources) {
+    parts.push(`
+  mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: listResources() }));
 
-    mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      return dispatchTool(name, args || {});
-    });`);
+  mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: await readResource(request.params.uri),
+  }));`);
+  }
 
-  if (ui && ui.ui_resources.length > 0) {
+  if (templates.length > 0) {
     parts.push(`
-    mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: Array.from(uiResources.entries()).map(([uri, r]) => ({
-        uri,
-        name: r.toolName + " UI",
-        description: "Generated interactive UI for " + r.toolName,
-        mimeType: "text/html",
-      })),
-    }));
+  mcpServer.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES.map(({ name, uriTemplate, description, mimeType }) => ({ name, uriTemplate, description, mimeType })),
+  }));`);
+  }
 
-    mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const uri = request.params.uri;
-      const resource = uiResources.get(uri);
-      if (!resource) throw new Error("Unknown resource: " + uri);
-      return {
-        contents: [{ uri, mimeType: "text/html", text: resource.html }],
-      };
-    });`);
+  if (prompts.length > 0) {
+    parts.push(`
+  mcpServer.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(({ messages, ...prompt }) => prompt),
+  }));
+
+  mcpServer.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments));`);
   }
 
   parts.push(`
-    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
-    try {
-      const chunks = [];
-      for await (const chunk of req) chunks.push(chunk);
-      const body = JSON.parse(Buffer.concat(chunks).toString());
-      await mcpServer.connect(transport);
-      await transport.handleRequest(req, res, body);
-      res.on("close", () => {
-        transport.close();
-        mcpServer.close();
-      });
-    } catch (error) {
-      if (!res.headersSent) {
-        res.writeHead(500, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({
-          jsonrpc: "2.0",
-          error: { code: -32603, message: String(error) },
-          id: null,
-        }));
+  return mcpServer;
+}
+`);
+
+  // HTTP server
+  parts.push(`// Inbound limits per client (verified API key or token subject, else remote address),
+// enforced before MCP dispatch: MCP_RATE_LIMIT requests per minute and MCP_DAILY_QUOTA
+// requests per UTC day. 0 disables either one.
+const RATE_LIMIT_PER_MINUTE = envInt("MCP_RATE_LIMIT", 120);
+const DAILY_QUOTA = envInt("MCP_DAILY_QUOTA", 0);
+const MAX_TRACKED_CLIENTS = 10000;
+const clientUsage = new Map();
+
+// Unverified credentials never pick the bucket, or rotating them would get a fresh one
+function clientId(req, client) {
+  return client ? "key:" + client.name : "ip:" + req.socket.remoteAddress;
+}
+
+// Count a request against the client's current minute and day. Returns the
+// rate-limit headers and, when a limit is exhausted, the seconds until it resets.
+function checkClientLimits(id) {
+  const now = Date.now();
+  const minute = Math.floor(now / 60000);
+  const day = Math.floor(now / 86400000);
+  // Most recently seen clients last, so the least recent are evicted beyond the cap
+  let usage = clientUsage.get(id);
+  clientUsage.delete(id);
+  if (!usage) {
+    usage = { minute, minuteCount: 0, day, dayCount: 0 };
+    if (clientUsage.size >= MAX_TRACKED_CLIENTS) clientUsage.delete(clientUsage.keys().next().value);
+  }
+  clientUsage.set(id, usage);
+  if (usage.minute !== minute) {
+    usage.minute = minute;
+    usage.minuteCount = 0;
+  }
+  if (usage.day !== day) {
+    usage.day = day;
+    usage.dayCount = 0;
+  }
+
+  const minuteReset = Math.ceil(((minute + 1) * 60000 - now) / 1000);
+  const dayReset = Math.ceil(((day + 1) * 86400000 - now) / 1000);
+  let retryAfter = 0;
+  if (RATE_LIMIT_PER_MINUTE > 0 && usage.minuteCount >= RATE_LIMIT_PER_MINUTE) retryAfter = minuteReset;
+  if (DAILY_QUOTA > 0 && usage.dayCount >= DAILY_QUOTA) retryAfter = Math.max(retryAfter, dayReset);
+  if (!retryAfter) {
+    usage.minuteCount++;
+    usage.dayCount++;
+  }
+
+  const headers${recordType} = {};
+  if (RATE_LIMIT_PER_MINUTE > 0) {
+    headers["RateLimit-Limit"] = String(RATE_LIMIT_PER_MINUTE);
+    headers["RateLimit-Remaining"] = String(Math.max(0, RATE_LIMIT_PER_MINUTE - usage.minuteCount));
+    headers["RateLimit-Reset"] = String(minuteReset);
+  }
+  if (DAILY_QUOTA > 0) {
+    headers["X-Quota-Limit"] = String(DAILY_QUOTA);
+    headers["X-Quota-Remaining"] = String(Math.max(0, DAILY_QUOTA - usage.dayCount));
+    headers["X-Quota-Reset"] = String(dayReset);
+  }
+  if (retryAfter) headers["Retry-After"] = String(retryAfter);
+  return { headers, retryAfter };
+}
+
+// Forget clients whose windows have passed
+setInterval(() => {
+  const minute = Math.floor(Date.now() / 60000);
+  const day = Math.floor(Date.now() / 86400000);
+  for (const [id, usage] of clientUsage) {
+    if (usage.minute !== minute && (DAILY_QUOTA === 0 || usage.day !== day)) clientUsage.delete(id);
+  }
+}, 60000).unref();
+
+// Browsers send Origin: requests from origins outside MCP_ALLOWED_ORIGINS (comma-separated,
+// "*" for any) are refused, which also defeats DNS rebinding, and only allowed origins get
+// CORS headers. Clients that send no Origin, like MCP SDKs, are unaffected.
+const ALLOWED_ORIGINS = (process.env.MCP_ALLOWED_ORIGINS ?? ${JSON.stringify((options.allowedOrigins ?? []).join(","))})
+  .split(",").map(origin => origin.trim()).filter(Boolean);
+const MAX_BODY_BYTES = envInt("MCP_MAX_BODY_BYTES", 1048576);
+
+const SECURITY_HEADERS = {
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+  "Referrer-Policy": "no-referrer",
+  "Cache-Control": "no-store",
+  "Content-Security-Policy": "default-src 'none'; frame-ancestors 'none'",
+};
+
+function originAllowed(origin) {
+  return ALLOWED_ORIGINS.includes("*") || ALLOWED_ORIGINS.includes(origin);
+}
+
+// The request body, or null once it exceeds MAX_BODY_BYTES (0 = unlimited)
+async function readBody(req) {
+  if (MAX_BODY_BYTES > 0 && Number(req.headers["content-length"]) > MAX_BODY_BYTES) return null;
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (MAX_BODY_BYTES > 0 && size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res, status, code, message) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+// Stateful Streamable HTTP (MCP_SESSIONS=1): initialize returns an Mcp-Session-Id, GET
+// opens an SSE stream for server notifications and DELETE ends the session. Sessions
+// with no open requests for MCP_SESSION_IDLE_MS are closed.
+const SESSIONS = ["1", "true"].includes(process.env.MCP_SESSIONS ?? ${JSON.stringify(options.sessions ? "1" : "0")});
+const SESSION_IDLE_MS = envInt("MCP_SESSION_IDLE_MS", 1800000, 1);
+const MAX_SESSIONS = envInt("MCP_MAX_SESSIONS", 1000);
+const SESSION_EVENTS = 100;
+const sessions = new Map();
+
+// The last SESSION_EVENTS SSE events of a session, replayed to a client that
+// reconnects with Last-Event-ID
+function createEventStore() {
+  const events = [];
+  let seq = 0;
+  return {
+    async storeEvent(streamId, message) {
+      const id = String(++seq);
+      events.push({ id, streamId, message });
+      if (events.length > SESSION_EVENTS) events.shift();
+      return id;
+    },
+    async getStreamIdForEventId(eventId) {
+      return events.find(e => e.id === eventId)?.streamId;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const last = events.find(e => e.id === lastEventId);
+      if (!last) throw new Error("Unknown event ID: " + lastEventId);
+      for (const e of events) {
+        if (Number(e.id) > Number(last.id) && e.streamId === last.streamId) await send(e.id, e.message);
       }
+      return last.streamId;
+    },
+  };
+}
+
+async function handleSessionRequest(req, res, client, body) {
+  const sessionId = req.headers["mcp-session-id"];
+  let session${anyType};
+  if (sessionId === undefined) {
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: Mcp-Session-Id header is required");
+      return;
+    }
+    if (MAX_SESSIONS > 0 && sessions.size >= MAX_SESSIONS) {
+      sendJsonRpcError(res, 503, -32000, "Too many sessions");
+      return;
     }
-  } else if (req.method === "GET" && req.url === "/health") {
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ status: "ok", tools: TOOLS.length }));
+    session = { client: client?.name, active: 0, lastSeen: Date.now(), server: createMcpServer() };
+    session.transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      eventStore: createEventStore(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+        logEvent("info", "session started", { sessionId: id, client: client?.name });
+      },
+    });
+    session.transport.onclose = () => {
+      const id = session.transport.sessionId;
+      if (id && sessions.delete(id)) logEvent("info", "session closed", { sessionId: id });
+    };
+    await session.server.connect(session.transport);
   } else {
-    res.writeHead(404);
-    res.end("Not found");
+    session = sessions.get(sessionId);
+    // A session belongs to the client that started it
+    if (!session || session.client !== client?.name) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
   }
-});
 
-const HOST = process.env.HOST || "0.0.0.0";
-httpServer.listen(PORT, HOST, () => {
-  console.log("Exported MCP server listening on http://" + HOST + ":" + PORT + "/mcp");
-  console.log("Serving " + TOOLS.length + " tool(s)");
-});
+  session.active++;
+  res.on("close", () => {
+    session.active--;
+    session.lastSeen = Date.now();
+  });
+  await session.transport.handleRequest(req, res, body);
+}
+
+if (SESSIONS) {
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.active > 0 || session.lastSeen > cutoff) continue;
+      logEvent("info", "session expired", { sessionId: id });
+      session.server.close();
+    }
+  }, Math.min(SESSION_IDLE_MS, 60000)).unref();
+}
+
+// Stateless: a fresh server and transport for each POST
+async function handleStatelessRequest(req, res, body) {
+  const mcpServer = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+  // Closing the server when the client goes away also cancels its tool call
+  res.on("close", () => {
+    transport.close();
+    mcpServer.close();
+  });
+  await mcpServer.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+function startHttpServer() {
+  const PORT = parseInt(process.env.PORT || "8000", 10);${options.oauth ? `
+  if (!OAUTH.audience) {
+    console.error("OAuth needs this server's URL as the token audience: set MCP_OAUTH_AUDIENCE");
+    process.exit(1);
+  }` : ""}
+
+  const httpServer = http.createServer(async (req, res) => {
+    for (const [name, value] of Object.entries(SECURITY_HEADERS)) res.setHeader(name, value);
+
+    // Reuse the caller's X-Request-Id if it is sane, so logs can be correlated across services
+    const incomingId = req.headers["x-request-id"];
+    const requestId = typeof incomingId === "string" && /^[\\w.:-]{1,128}$/.test(incomingId) ? incomingId : crypto.randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+
+    const origin = req.headers["origin"];
+    if (origin !== undefined) {
+      if (!originAllowed(origin)) {
+        sendJson(res, 403, { error: "Origin not allowed" });
+        return;
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, mcp-session-id, mcp-protocol-version, Last-Event-ID, Authorization, traceparent");
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset, Retry-After, X-Request-Id${options.oauth ? ", WWW-Authenticate" : ""}");
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+${options.oauth ? `    if (req.method === "GET" && req.url.startsWith("/.well-known/oauth-protected-resource")) {
+      sendJson(res, 200, protectedResourceMetadata());
+      return;
+    }
+
+    // Every request but /health needs an API key or a valid access token
+    let client = findApiKey(req);
+    if (!client && req.url !== "/health") {
+      const auth = req.headers["authorization"];
+      let error = "";
+      if (auth && auth.startsWith("Bearer ")) {
+        try {
+          client = await verifyAccessToken(auth.slice("Bearer ".length));
+        } catch (err) {
+          error = err.message;
+        }
+      }
+      if (!client) {
+        sendJson(res, 401, { error: "Unauthorized" }, { "WWW-Authenticate": wwwAuthenticate(error) });
+        return;
+      }
+    }` : `    const client = findApiKey(req);
+    if (API_KEYS.size > 0 && !client && req.url !== "/health") {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }`}
+
+    // GET (SSE stream) and DELETE only exist for sessions
+    const mcpMethods = SESSIONS ? ["POST", "GET", "DELETE"] : ["POST"];
+    if ((req.url === "/mcp" || req.url === "/") && mcpMethods.includes(req.method)) {
+      const { headers, retryAfter } = checkClientLimits(clientId(req, client));
+      for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+      if (retryAfter) {
+        sendJson(res, 429, { error: "Too Many Requests", retryAfter });
+        return;
+      }
+
+      let body;
+      if (req.method === "POST") {
+        const text = await readBody(req);
+        if (text === null) {
+          sendJson(res, 413, { error: "Payload Too Large", maxBytes: MAX_BODY_BYTES }, { Connection: "close" });
+          return;
+        }
+        try {
+          body = JSON.parse(text);
+        } catch {
+          sendJsonRpcError(res, 400, -32700, "Parse error");
+          return;
+        }
+      }
+
+      const context = { client, requestId, traceparent: req.headers["traceparent"] };
+      try {
+        await httpRequestContext.run(context, () =>
+          SESSIONS ? handleSessionRequest(req, res, client, body) : handleStatelessRequest(req, res, body));
+      } catch (error) {
+        if (!res.headersSent) sendJsonRpcError(res, 500, -32603, String(error));
+      }
+    } else if (req.method === "GET" && req.url === "/health") {
+      sendJson(res, 200, {
+        status: "ok",
+        tools: TOOLS.length,
+        cache: { ...cacheStats, entries: memoryCache.size },
+      });
+    } else if (req.method === "GET" && req.url === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      res.end(renderMetrics());
+    } else {
+      res.writeHead(404);
+      res.end("Not found");
+    }
+  });
+
+  const HOST = process.env.HOST || "0.0.0.0";
+  httpServer.listen(PORT, HOST, () => {
+    log("Exported MCP server listening on http://" + HOST + ":" + PORT + "/mcp");
+    log("Serving " + TOOLS.length + " tool(s)" + (SESSIONS ? " with sessions" : ""));
+  });
+
+  process.on("SIGINT", () => { httpServer.close(); exitAfterFlush(); });
+  process.on("SIGTERM", () => { httpServer.close(); exitAfterFlush(); });
+}
+
+// Stdio server: stdout carries the protocol, so all logging goes to stderr
+async function startStdioServer() {
+  const mcpServer = createMcpServer();
+  const transport = new StdioServerTransport();
+  // The client closing stdin ends the session as well as the transport closing
+  transport.onclose = exitAfterFlush;
+  process.stdin.on("end", exitAfterFlush);
+  await mcpServer.connect(transport);
+  log("Exported MCP server running on stdio, serving " + TOOLS.length + " tool(s)");
+
+  process.on("SIGINT", () => { mcpServer.close(); exitAfterFlush(); });
+  process.on("SIGTERM", () => { mcpServer.close(); exitAfterFlush(); });
+}
 
-process.on("SIGINT", () => { httpServer.close(); process.exit(0); });
-process.on("SIGTERM", () => { httpServer.close(); process.exit(0); });`);
+if (TRANSPORT === "stdio") {
+  startStdioServer().catch((err) => {
+    console.error("Failed to start stdio server: " + err);
+    process.exit(1);
+  });
+} else {
+  startHttpServer();
+}`);
 
   return parts.join("\n");
 }
 
-export async function generateProject(stages: StageMetadata[], outputDir: string): Promise<void> {
+export async function generateProject(
+  stages: StageMetadata[],
+  outputDir: string,
+  options: CodegenOptions = {},
+): Promise<void> {
   const absDir = path.resolve(outputDir);
   ensureDir(absDir);
 
   const boot = stages.find(s => s.stage === "boot") as BootStage | undefined;
-  const mod = stages.find(s => s.stage === "mod") as ModStage | undefined;
+  const mods = getModStages(stages);
   const ui = stages.find(s => s.stage === "ui") as UIStage | undefined;
 
   // Write package.json
-  writeJSON(path.join(absDir, "package.json"), generatePackageJson(stages));
+  writeJSON(path.join(absDir, "package.json"), generatePackageJson(stages, options));
+
+  // Code modules live in src/ for the TS target, at the project root otherwise
+  const ts = options.lang === "ts";
+  const codeDir = ts ? path.join(absDir, "src") : absDir;
+  const typeNames = assignTypeNames(stages);
+  const writeModule = (relPath: string, content: string) => {
+    ensureDir(path.dirname(path.join(codeDir, relPath)));
+    writeText(path.join(codeDir, relPath), content);
+  };
 
   // Write handler files (from boot stage)
   if (boot) {
-    const handlersDir = path.join(absDir, "handlers");
-    ensureDir(handlersDir);
     for (const tool of boot.tools) {
-      writeText(path.join(handlersDir, `${tool.name}.js`), tool.handler_code);
+      if (ts) {
+        const relPath = `handlers/${tool.name}.ts`;
+        writeModule(relPath, generateHandlerTs(tool, typeNames.get(`boot:${tool.name}`)!.name, relPath));
+      } else {
+        writeModule(`handlers/${tool.name}.js`, tool.handler_code);
+      }
     }
   }
 
-  // Write transform files (from mod stage)
-  if (mod) {
-    const modifiedTools = mod.pass_through_tools.filter(
-      t => t.input_transform_code || t.output_transform_code
-    );
-    if (modifiedTools.length > 0) {
-      const transformsDir = path.join(absDir, "transforms");
-      ensureDir(transformsDir);
-      for (const tool of modifiedTools) {
-        writeJSON(path.join(transformsDir, `${tool.exposed_name}.json`), {
+  // Write transform and orchestration files (one set per mod stage)
+  mods.forEach((mod, i) => {
+    const scope = `mod${i + 1}`;
+    const transformsDir = modFileDir("transforms", i, mods.length);
+    for (const tool of mod.pass_through_tools.filter(hasTransforms)) {
+      if (ts) {
+        const relPath = `${transformsDir}/${tool.exposed_name}.ts`;
+        writeModule(relPath, generateTransformTs(tool, typeNames.get(`${scope}:${tool.exposed_name}`)!.name, relPath));
+      } else {
+        ensureDir(path.join(absDir, transformsDir));
+        writeJSON(path.join(absDir, transformsDir, `${tool.exposed_name}.json`), {
           input_transform_code: tool.input_transform_code,
           output_transform_code: tool.output_transform_code,
         });
@@ -552,14 +3235,16 @@ export async function generateProject(stages: StageMetadata[], outputDir: string
     }
 
     // Write orchestration files (synthetic tools)
-    if (mod.synthetic_tools.length > 0) {
-      const orchDir = path.join(absDir, "orchestrations");
-      ensureDir(orchDir);
-      for (const tool of mod.synthetic_tools) {
-        writeText(path.join(orchDir, `${tool.name}.js`), tool.orchestration_code);
+    const orchDir = modFileDir("orchestrations", i, mods.length);
+    for (const tool of mod.synthetic_tools) {
+      if (ts) {
+        const relPath = `${orchDir}/${tool.name}.ts`;
+        writeModule(relPath, generateOrchestrationTs(tool, typeNames.get(`${scope}:${tool.name}`)!.name, relPath));
+      } else {
+        writeModule(`${orchDir}/${tool.name}.js`, tool.orchestration_code);
       }
     }
-  }
+  });
 
   // Write UI files
   if (ui && ui.ui_resources.length > 0) {
@@ -570,9 +3255,39 @@ export async function generateProject(stages: StageMetadata[], outputDir: string
     }
   }
 
-  // Write server.js
-  writeText(path.join(absDir, "server.js"), generateServerJs(stages));
+  // Write static resources and resource templates (prompts are inlined in the server)
+  const { resources, templates } = collectPromptsAndResources(stages);
+  if (resources.length > 0) {
+    writeJSON(path.join(absDir, "resources.json"), resources.map(r => ({
+      uri: r.uri,
+      name: r.name,
+      ...(r.description ? { description: r.description } : {}),
+      ...(r.mime_type ? { mimeType: r.mime_type } : {}),
+      ...(r.blob !== undefined ? { blob: r.blob } : { text: r.text ?? "" }),
+    })));
+  }
+  for (const template of templates) {
+    if (ts) {
+      writeModule(`resource-templates/${template.name}.ts`, generateResourceTemplateTs(template));
+    } else {
+      writeModule(`resource-templates/${template.name}.js`, template.handler_code);
+    }
+  }
+
+  // Write the server: src/server.ts plus a root entry point for the TS target
+  if (ts) {
+    writeModule("server.ts", generateServerJs(stages, options));
+    writeModule("types.ts", generateTypesTs(stages, declaredSecrets(stages, options)));
+    writeJSON(path.join(absDir, "tsconfig.json"), generateTsConfig());
+    writeText(
+      path.join(absDir, "server.js"),
+      "// Entry point: runs the compiled TypeScript build (npm run build)\nimport \"./dist/server.js\";\n",
+    );
+  } else {
+    writeText(path.join(absDir, "server.js"), generateServerJs(stages, options));
+  }
+  writeModule(ts ? "sandbox-worker.ts" : "sandbox-worker.js", generateSandboxWorker(needsNetwork(stages), ts));
 
   // Write README.md
-  writeText(path.join(absDir, "README.md"), generateReadme(stages));
+  writeText(path.join(absDir, "README.md"), generateReadme(stages, options));
 }
@@ -1,7 +1,7 @@
 // ABOUTME: Orchestrator for the deploy subcommand.
 // ABOUTME: Parses args, validates project directory, dispatches to provider, formats output.
 
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
 import type { Provider } from "./providers/types.js";
@@ -13,11 +13,49 @@ export interface DeployArgs {
   region: string | undefined;
   env: Record<string, string>;
   apiKey: string | null;
+  keys: KeySpec[];
+  rotateKeys: string[];
+  revokeKeys: string[];
   destroy: boolean;
   help: boolean;
   projectDir: string | null;
 }
 
+// A named key to mint, optionally restricted to some tools (--key name=tool1,tool2).
+// tools is null when none were given and "*" when all tools were asked for (--key name=*).
+export interface KeySpec {
+  name: string;
+  tools: string[] | "*" | null;
+}
+
+// An entry in the project's keys.json; only the key's digest is stored
+export interface ApiKeyEntry {
+  name: string;
+  sha256: string;
+  tools?: string[];
+  created: string;
+}
+
+export interface MintedKey {
+  name: string;
+  key: string;
+  tools: string[] | null;
+}
+
+const KEY_NAME = /^[A-Za-z0-9_.-]+$/;
+
+function parseKeySpec(spec: string): KeySpec {
+  const eqIdx = spec.indexOf("=");
+  const name = eqIdx >= 0 ? spec.slice(0, eqIdx) : spec;
+  if (!KEY_NAME.test(name)) {
+    throw new Error(`Invalid key name: ${name}. Use letters, digits, '.', '_' or '-'`);
+  }
+  if (eqIdx < 0) return { name, tools: null };
+  const list = spec.slice(eqIdx + 1).trim();
+  if (list === "*") return { name, tools: "*" };
+  return { name, tools: list.split(",").map(t => t.trim()).filter(Boolean) };
+}
+
 const PROVIDERS: Record<string, Provider> = {
   fly: new FlyProvider(),
 };
@@ -29,6 +67,9 @@ export function parseDeployArgs(argv: string[]): DeployArgs {
     region: undefined,
     env: {},
     apiKey: null,
+    keys: [],
+    rotateKeys: [],
+    revokeKeys: [],
     destroy: false,
     help: false,
     projectDir: null,
@@ -69,6 +110,18 @@ export function parseDeployArgs(argv: string[]): DeployArgs {
       result.apiKey = argv[++i];
     } else if (arg.startsWith("--api-key=")) {
       result.apiKey = arg.slice("--api-key=".length);
+    } else if (arg === "--key" && i + 1 < argv.length) {
+      result.keys.push(parseKeySpec(argv[++i]));
+    } else if (arg.startsWith("--key=")) {
+      result.keys.push(parseKeySpec(arg.slice("--key=".length)));
+    } else if (arg === "--rotate-key" && i + 1 < argv.length) {
+      result.rotateKeys.push(argv[++i]);
+    } else if (arg.startsWith("--rotate-key=")) {
+      result.rotateKeys.push(arg.slice("--rotate-key=".length));
+    } else if (arg === "--revoke-key" && i + 1 < argv.length) {
+      result.revokeKeys.push(argv[++i]);
+    } else if (arg.startsWith("--revoke-key=")) {
+      result.revokeKeys.push(arg.slice("--revoke-key=".length));
     } else if (!arg.startsWith("-") && !result.projectDir) {
       result.projectDir = arg;
     }
@@ -84,6 +137,87 @@ export function validateProjectDir(dir: string): void {
   if (!existsSync(path.join(dir, "server.js"))) {
     throw new Error(`Not a valid project directory: missing server.js in ${dir}`);
   }
+  // TypeScript exports run from dist/, which must be built before deploying
+  if (existsSync(path.join(dir, "tsconfig.json")) && !existsSync(path.join(dir, "dist", "server.js"))) {
+    throw new Error(`TypeScript project is not built: run 'npm install && npm run build' in ${dir}`);
+  }
+}
+
+// Secrets the exported project declares in package.json (mcpknife.secrets)
+export function readDeclaredSecrets(dir: string): string[] {
+  const pkg = JSON.parse(readFileSync(path.join(dir, "package.json"), "utf-8"));
+  const secrets = pkg.mcpknife?.secrets;
+  return Array.isArray(secrets) ? secrets.filter((s: unknown) => typeof s === "string") : [];
+}
+
+// Every declared secret must be passed with --env
+export function checkDeclaredSecrets(dir: string, env: Record<string, string>): void {
+  const missing = readDeclaredSecrets(dir).filter(name => !(name in env));
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing secrets declared by the project: ${missing.join(", ")}. ` +
+      `Pass each with --env ${missing[0]}=...`,
+    );
+  }
+}
+
+// Named API keys the project serves with (keys.json), without the keys themselves
+export function readKeyFile(dir: string): ApiKeyEntry[] {
+  const file = path.join(dir, "keys.json");
+  if (!existsSync(file)) return [];
+  const keys = JSON.parse(readFileSync(file, "utf-8")).keys;
+  return Array.isArray(keys) ? keys : [];
+}
+
+export function writeKeyFile(dir: string, entries: ApiKeyEntry[]): void {
+  writeFileSync(path.join(dir, "keys.json"), JSON.stringify({ keys: entries }, null, 2) + "\n");
+}
+
+function mintKey(name: string, tools: string[] | null): { entry: ApiKeyEntry; minted: MintedKey } {
+  const key = crypto.randomBytes(24).toString("base64url");
+  const entry: ApiKeyEntry = {
+    name,
+    sha256: crypto.createHash("sha256").update(key).digest("hex"),
+    ...(tools ? { tools } : {}),
+    created: new Date().toISOString(),
+  };
+  return { entry, minted: { name, key, tools } };
+}
+
+// Apply --key, --rotate-key and --revoke-key to the existing entries. New and rotated
+// keys are returned in plain text once; --key on an existing name only updates its tools,
+// keeping them when none are given and lifting the restriction only for NAME=*.
+export function updateKeys(
+  entries: ApiKeyEntry[],
+  changes: Pick<DeployArgs, "keys" | "rotateKeys" | "revokeKeys">,
+): { entries: ApiKeyEntry[]; minted: MintedKey[] } {
+  const byName = new Map(entries.map(e => [e.name, e]));
+  const minted: MintedKey[] = [];
+
+  for (const name of [...changes.rotateKeys, ...changes.revokeKeys]) {
+    if (!byName.has(name)) throw new Error(`No API key named ${name} in keys.json`);
+  }
+  for (const name of changes.revokeKeys) byName.delete(name);
+  for (const name of changes.rotateKeys) {
+    const existing = byName.get(name)!;
+    const next = mintKey(name, existing.tools ?? null);
+    byName.set(name, next.entry);
+    minted.push(next.minted);
+  }
+  for (const spec of changes.keys) {
+    const existing = byName.get(spec.name);
+    if (existing) {
+      if (spec.tools === null) continue;
+      const { tools: _tools, ...rest } = existing;
+      byName.set(spec.name, spec.tools === "*" ? rest : { ...rest, tools: spec.tools });
+    } else {
+      const next = mintKey(spec.name, spec.tools === "*" ? null : spec.tools);
+      byName.set(spec.name, next.entry);
+      minted.push(next.minted);
+    }
+  }
+
+  return { entries: Array.from(byName.values()), minted };
 }
 
 function readPathFromStdin(timeoutMs: number = 120000): Promise<string> {
@@ -139,13 +273,23 @@ Options:
   --target <name>    Deployment target (default: fly)
   --name <name>      App name (default: directory basename)
   --region <code>    Deployment region (default: provider default)
-  --env KEY=VALUE    Extra env var (repeatable)
+  --env KEY=VALUE    Extra env var (repeatable); required for each secret
+                     the project declares
   --api-key <key>    Bearer token for auth (default: auto-generated)
+  --key NAME[=TOOLS] Mint a named API key, optionally limited to a
+                     comma-separated list of tools (repeatable). Keys are
+                     recorded (hashed) in the project's keys.json. On an
+                     existing key, TOOLS replaces its list; NAME=* lifts
+                     the restriction
+  --rotate-key NAME  Replace a named key with a new one (repeatable)
+  --revoke-key NAME  Remove a named key (repeatable)
   --destroy          Tear down a previous deployment (requires --name)
   --help             Show this help message
 
 Examples:
   mcpknife deploy ./exported_mcp --name my-api
+  mcpknife deploy ./exported_mcp --name my-api --key team-a=search,lookup
+  mcpknife deploy ./exported_mcp --name my-api --rotate-key team-a
   mcpknife export | mcpknife deploy --name my-api
   mcpknife deploy --destroy --name my-api`);
 }
@@ -156,7 +300,7 @@ export function formatDeployOutput(result: {
   target: string;
   apiKey: string;
   dashboardUrl?: string;
-}): { stdout: string; stderr: string } {
+}, minted: MintedKey[] = []): { stdout: string; stderr: string } {
   const stdout = result.url + "\n";
 
   const lines = [
@@ -168,6 +312,12 @@ export function formatDeployOutput(result: {
   if (result.dashboardUrl) {
     lines.push(`[deploy] Dashboard: ${result.dashboardUrl}`);
   }
+  if (minted.length > 0) {
+    lines.push("", "[deploy] New API keys (shown once; only their hashes are kept in keys.json):");
+    for (const k of minted) {
+      lines.push(`[deploy]   ${k.name}: ${k.key}${k.tools ? ` (tools: ${k.tools.join(", ")})` : ""}`);
+    }
+  }
   lines.push(
     "",
     `[deploy] Claude Desktop config:`,
@@ -221,6 +371,7 @@ export async function runDeploy(argv: string[]): Promise<void> {
 
   // Validate
   validateProjectDir(projectDir);
+  checkDeclaredSecrets(projectDir, args.env);
 
   // Default app name from directory basename
   const name = args.name || path.basename(projectDir);
@@ -228,6 +379,10 @@ export async function runDeploy(argv: string[]): Promise<void> {
   // Generate API key if not provided
   const apiKey = args.apiKey || crypto.randomBytes(24).toString("base64url");
 
+  // Named keys ship in keys.json
+  const keyChanges = updateKeys(readKeyFile(projectDir), args);
+  const keysChanged = args.keys.length + args.rotateKeys.length + args.revokeKeys.length > 0;
+
   const opts = {
     projectDir,
     name,
@@ -240,12 +395,26 @@ export async function runDeploy(argv: string[]): Promise<void> {
   console.error(`[deploy] Running preflight checks for ${args.target}...`);
   await provider.preflight(opts);
 
+  // Restore the old keys.json if the deploy fails, so unseen keys never go live
+  const keysFile = path.join(projectDir, "keys.json");
+  const previousKeys = existsSync(keysFile) ? readFileSync(keysFile, "utf-8") : null;
+  if (keysChanged) writeKeyFile(projectDir, keyChanges.entries);
+
   // Deploy
   console.error(`[deploy] Deploying ${name} to ${args.target}...`);
-  const result = await provider.deploy(opts);
+  let result;
+  try {
+    result = await provider.deploy(opts);
+  } catch (err) {
+    if (keysChanged) {
+      if (previousKeys === null) rmSync(keysFile, { force: true });
+      else writeFileSync(keysFile, previousKeys);
+    }
+    throw err;
+  }
 
   // Output
-  const output = formatDeployOutput(result);
+  const output = formatDeployOutput(result, keyChanges.minted);
   process.stdout.write(output.stdout);
   process.stderr.write(output.stderr);
 }
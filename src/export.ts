@@ -2,9 +2,14 @@
 // ABOUTME: Reads upstream URL from stdin, walks _mcp_metadata chain, delegates to codegen.
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { readFileSync } from "node:fs";
 import path from "node:path";
 import { generateProject } from "./codegen.js";
+import type {
+  CacheOptions, ExportLang, OutboundOptions, NetworkPolicy, NetworkRule, OAuthOptions, SandboxBackend, ServerTransport, ToolLimits, TransformErrorPolicy,
+} from "./codegen.js";
 
 export interface StageMetadata {
   stage: string;
@@ -13,42 +18,304 @@ export interface StageMetadata {
   [key: string]: unknown;
 }
 
-export function parseExportArgs(argv: string[]): { outputDir: string; help: boolean } {
-  let outputDir = "./exported_mcp";
-  let help = false;
+// Root of a pipeline that is not an mcpknife stage (a third-party MCP server).
+// Synthesized by crawlPipeline; the exported server proxies to it at runtime.
+export interface UpstreamStage extends StageMetadata {
+  stage: "upstream";
+  command: string | null;
+  url: string | null;
+}
+
+export class MetadataUnavailableError extends Error {
+  constructor(url: string) {
+    super(`No _mcp_metadata tool on ${url}`);
+    this.name = "MetadataUnavailableError";
+  }
+}
+
+export interface ExportArgs {
+  outputDir: string;
+  upstreamCommand: string | null;
+  upstreamUrl: string | null;
+  upstreamEnv: string[];
+  transport: string;
+  lang: string;
+  transformErrors: string;
+  sandbox: string;
+  secrets: string[];
+  cacheTtl: string | null;
+  cacheTools: string[];
+  rateLimits: string[];
+  fetchRetries: string | null;
+  networkPolicyFile: string | null;
+  timeoutMs: string | null;
+  maxConcurrency: string | null;
+  maxResponseBytes: string | null;
+  limitsFile: string | null;
+  oauthIssuer: string | null;
+  oauthAudience: string | null;
+  oauthJwks: string | null;
+  oauthScopes: string[];
+  allowedOrigins: string[];
+  otlpEndpoint: string | null;
+  sessions: boolean;
+  help: boolean;
+}
+
+const TRANSPORTS: ServerTransport[] = ["http", "stdio"];
+const LANGS: ExportLang[] = ["js", "ts"];
+const TRANSFORM_ERROR_POLICIES: TransformErrorPolicy[] = ["fail", "passthrough", "fallback"];
+const SANDBOXES: SandboxBackend[] = ["vm", "worker", "process"];
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function parseExportArgs(argv: string[]): ExportArgs {
+  const result: ExportArgs = {
+    outputDir: "./exported_mcp",
+    upstreamCommand: null,
+    upstreamUrl: null,
+    upstreamEnv: [],
+    transport: "http",
+    lang: "js",
+    transformErrors: "fail",
+    sandbox: "process",
+    secrets: [],
+    cacheTtl: null,
+    cacheTools: [],
+    rateLimits: [],
+    fetchRetries: null,
+    networkPolicyFile: null,
+    timeoutMs: null,
+    maxConcurrency: null,
+    maxResponseBytes: null,
+    limitsFile: null,
+    oauthIssuer: null,
+    oauthAudience: null,
+    oauthJwks: null,
+    oauthScopes: [],
+    allowedOrigins: [],
+    otlpEndpoint: null,
+    sessions: false,
+    help: false,
+  };
 
   for (let i = 0; i < argv.length; i++) {
     const arg = argv[i];
     if (arg === "--help" || arg === "-h") {
-      help = true;
+      result.help = true;
     } else if (arg === "--output-dir" && i + 1 < argv.length) {
-      outputDir = argv[++i];
+      result.outputDir = argv[++i];
     } else if (arg.startsWith("--output-dir=")) {
-      outputDir = arg.slice("--output-dir=".length);
+      result.outputDir = arg.slice("--output-dir=".length);
+    } else if (arg === "--transform-errors" && i + 1 < argv.length) {
+      result.transformErrors = argv[++i];
+    } else if (arg.startsWith("--transform-errors=")) {
+      result.transformErrors = arg.slice("--transform-errors=".length);
+    } else if (arg === "--sandbox" && i + 1 < argv.length) {
+      result.sandbox = argv[++i];
+    } else if (arg.startsWith("--sandbox=")) {
+      result.sandbox = arg.slice("--sandbox=".length);
+    } else if (arg === "--secret" && i + 1 < argv.length) {
+      result.secrets.push(argv[++i]);
+    } else if (arg.startsWith("--secret=")) {
+      result.secrets.push(arg.slice("--secret=".length));
+    } else if (arg === "--cache-ttl" && i + 1 < argv.length) {
+      result.cacheTtl = argv[++i];
+    } else if (arg.startsWith("--cache-ttl=")) {
+      result.cacheTtl = arg.slice("--cache-ttl=".length);
+    } else if (arg === "--cache-tool" && i + 1 < argv.length) {
+      result.cacheTools.push(argv[++i]);
+    } else if (arg.startsWith("--cache-tool=")) {
+      result.cacheTools.push(arg.slice("--cache-tool=".length));
+    } else if (arg === "--rate-limit" && i + 1 < argv.length) {
+      result.rateLimits.push(argv[++i]);
+    } else if (arg.startsWith("--rate-limit=")) {
+      result.rateLimits.push(arg.slice("--rate-limit=".length));
+    } else if (arg === "--fetch-retries" && i + 1 < argv.length) {
+      result.fetchRetries = argv[++i];
+    } else if (arg.startsWith("--fetch-retries=")) {
+      result.fetchRetries = arg.slice("--fetch-retries=".length);
+    } else if (arg === "--network-policy" && i + 1 < argv.length) {
+      result.networkPolicyFile = argv[++i];
+    } else if (arg.startsWith("--network-policy=")) {
+      result.networkPolicyFile = arg.slice("--network-policy=".length);
+    } else if (arg === "--timeout-ms" && i + 1 < argv.length) {
+      result.timeoutMs = argv[++i];
+    } else if (arg.startsWith("--timeout-ms=")) {
+      result.timeoutMs = arg.slice("--timeout-ms=".length);
+    } else if (arg === "--max-concurrency" && i + 1 < argv.length) {
+      result.maxConcurrency = argv[++i];
+    } else if (arg.startsWith("--max-concurrency=")) {
+      result.maxConcurrency = arg.slice("--max-concurrency=".length);
+    } else if (arg === "--max-response-bytes" && i + 1 < argv.length) {
+      result.maxResponseBytes = argv[++i];
+    } else if (arg.startsWith("--max-response-bytes=")) {
+      result.maxResponseBytes = arg.slice("--max-response-bytes=".length);
+    } else if (arg === "--limits" && i + 1 < argv.length) {
+      result.limitsFile = argv[++i];
+    } else if (arg.startsWith("--limits=")) {
+      result.limitsFile = arg.slice("--limits=".length);
+    } else if (arg === "--oauth-issuer" && i + 1 < argv.length) {
+      result.oauthIssuer = argv[++i];
+    } else if (arg.startsWith("--oauth-issuer=")) {
+      result.oauthIssuer = arg.slice("--oauth-issuer=".length);
+    } else if (arg === "--oauth-audience" && i + 1 < argv.length) {
+      result.oauthAudience = argv[++i];
+    } else if (arg.startsWith("--oauth-audience=")) {
+      result.oauthAudience = arg.slice("--oauth-audience=".length);
+    } else if (arg === "--oauth-jwks" && i + 1 < argv.length) {
+      result.oauthJwks = argv[++i];
+    } else if (arg.startsWith("--oauth-jwks=")) {
+      result.oauthJwks = arg.slice("--oauth-jwks=".length);
+    } else if (arg === "--oauth-scope" && i + 1 < argv.length) {
+      result.oauthScopes.push(argv[++i]);
+    } else if (arg.startsWith("--oauth-scope=")) {
+      result.oauthScopes.push(arg.slice("--oauth-scope=".length));
+    } else if (arg === "--allowed-origin" && i + 1 < argv.length) {
+      result.allowedOrigins.push(argv[++i]);
+    } else if (arg.startsWith("--allowed-origin=")) {
+      result.allowedOrigins.push(arg.slice("--allowed-origin=".length));
+    } else if (arg === "--sessions") {
+      result.sessions = true;
+    } else if (arg === "--otlp-endpoint" && i + 1 < argv.length) {
+      result.otlpEndpoint = argv[++i];
+    } else if (arg.startsWith("--otlp-endpoint=")) {
+      result.otlpEndpoint = arg.slice("--otlp-endpoint=".length);
+    } else if (arg === "--lang" && i + 1 < argv.length) {
+      result.lang = argv[++i];
+    } else if (arg.startsWith("--lang=")) {
+      result.lang = arg.slice("--lang=".length);
+    } else if (arg === "--transport" && i + 1 < argv.length) {
+      result.transport = argv[++i];
+    } else if (arg.startsWith("--transport=")) {
+      result.transport = arg.slice("--transport=".length);
+    } else if (arg === "--upstream-command" && i + 1 < argv.length) {
+      result.upstreamCommand = argv[++i];
+    } else if (arg.startsWith("--upstream-command=")) {
+      result.upstreamCommand = arg.slice("--upstream-command=".length);
+    } else if (arg === "--upstream-url" && i + 1 < argv.length) {
+      result.upstreamUrl = argv[++i];
+    } else if (arg.startsWith("--upstream-url=")) {
+      result.upstreamUrl = arg.slice("--upstream-url=".length);
+    } else if (arg === "--upstream-env" && i + 1 < argv.length) {
+      result.upstreamEnv.push(argv[++i]);
+    } else if (arg.startsWith("--upstream-env=")) {
+      result.upstreamEnv.push(arg.slice("--upstream-env=".length));
     }
   }
 
-  return { outputDir, help };
+  return result;
 }
 
 function printExportHelp(): void {
   console.log(`mcpknife export — dump a self-contained MCP server project to disk
 
 Usage:
-  mcpknife export [--output-dir <dir>]
+  mcpknife export [--output-dir <dir>] [options]
 
 Options:
-  --output-dir <dir>  Output directory (default: ./exported_mcp)
-  --help              Show this help message
+  --output-dir <dir>        Output directory (default: ./exported_mcp)
+  --lang <js|ts>            Output language (default: js)
+  --transport <name>        Default server transport: http or stdio (default: http)
+  --transform-errors <p>    Mod transform error policy: fail, passthrough or fallback
+                            (default: fail)
+  --sandbox <backend>       Where generated code runs: process, worker or vm
+                            (default: process)
+  --secret <NAME>           Declare a secret env var handlers read as secrets.NAME
+                            (repeatable)
+  --cache-ttl <seconds>     Cache every tool's results for this long (default: off)
+  --cache-tool <name>=<s>   Cache TTL for one tool, 0 to exclude it (repeatable)
+  --rate-limit <d>=<r>[:b]  Outbound rate limit for a domain: r requests/second,
+                            bursts of b ("*" for any host; repeatable)
+  --fetch-retries <n>       Retries for failed idempotent requests (default: 2)
+  --network-policy <file>   JSON outbound network policy for network tools, e.g.
+                            {"allow": [{"host": "api.example.com", "methods": ["GET"]}]}
+  --timeout-ms <n>          Wall-clock timeout per tool call (default: 30000)
+  --max-concurrency <n>     Concurrent calls per tool, 0 for unlimited (default: 16)
+  --max-response-bytes <n>  Result size cap, 0 for unlimited (default: 5242880)
+  --limits <file>           JSON file of per-tool limits, e.g.
+                            {"search": {"timeoutMs": 60000, "maxConcurrency": 4}}
+  --oauth-issuer <url>      Accept OAuth access tokens (JWTs) from this issuer
+  --oauth-audience <url>    This server's public URL, required as the token audience
+  --oauth-jwks <url>        Issuer JWKS URL (default: discovered from the issuer)
+  --oauth-scope <t>=<s,..>  Scopes a token needs to see and call tool t (repeatable)
+  --allowed-origin <origin> Browser origin allowed to call the HTTP server, e.g.
+                            https://app.example.com ("*" for any; repeatable)
+  --otlp-endpoint <url>     OTLP/HTTP collector for traces, e.g. http://localhost:4318
+  --sessions                Serve stateful Streamable HTTP sessions (default: stateless)
+  --upstream-command <cmd>  Stdio command for a non-boot root server
+  --upstream-url <url>      Streamable HTTP URL for a non-boot root server
+  --upstream-env <NAME>     Environment variable to pass to a stdio upstream
+                            (repeatable)
+  --help                    Show this help message
 
 The export command reads an upstream MCP server URL from stdin (pipe protocol)
 and recursively walks the _mcp_metadata chain to collect all implementation code,
 then combines it into a standalone Node.js project.
 
+If the root of the pipeline is a third-party MCP server rather than a boot stage,
+the exported server proxies to it over stdio or Streamable HTTP. The upstream is
+taken from the pipeline metadata when available, from the --upstream-* flags
+otherwise, and can be overridden at runtime with UPSTREAM_COMMAND / UPSTREAM_URL.
+A stdio upstream only gets the SDK's default environment (PATH, HOME and the
+like) plus the variables named with --upstream-env.
+
+Limits are baked in as defaults. At runtime MCP_TOOL_TIMEOUT_MS,
+MCP_MAX_CONCURRENCY, MCP_MAX_RESPONSE_BYTES and MCP_TOOL_LIMITS override them.
+
+Outbound requests from network tools can be rate limited per domain with
+token buckets (--rate-limit, MCP_RATE_LIMITS). Failed idempotent requests are
+retried with exponential backoff, honoring Retry-After (MCP_FETCH_RETRIES).
+
+Caching is opt-in: results are keyed by tool name and canonicalized arguments
+and kept in an in-memory LRU. At runtime MCP_CACHE_TTL, MCP_CACHE_TOOLS,
+MCP_CACHE_MAX_ENTRIES and MCP_CACHE_DIR (an on-disk backend) override it.
+
+Declared secrets (from the boot stage and --secret) are listed in the exported
+README and package.json, and are the only environment variables code in the
+process sandbox can read. mcpknife deploy checks that --env provides each of them.
+
+Network tools may only reach the boot stage's whitelisted domains, and never
+private, loopback or link-local addresses. --network-policy adds allow/deny
+rules on host, scheme, method, port and path prefix; MCP_NETWORK_POLICY
+overrides it at runtime.
+
+Generated code runs in a child process per call by default, with an empty
+environment, no file system access and a heap limit. --sandbox worker (a worker
+thread) and --sandbox vm (in the server process) are faster but do not keep
+generated code away from the server's environment, so use them only for
+trusted code; MCP_SANDBOX switches backends at runtime. process and worker
+start a fresh sandbox for every handler and transform run, which costs some
+50-100ms each (a pass-through tool with input and output transforms starts
+three); vm costs almost nothing. The process sandbox needs Node.js 20.3+.
+
+With --oauth-issuer the HTTP server acts as an OAuth 2.1 resource server: it
+serves /.well-known/oauth-protected-resource and accepts JWT access tokens
+signed by the issuer's keys (as well as any configured API keys). The
+MCP_OAUTH_* environment variables override these settings at runtime.
+
+The HTTP server refuses requests whose Origin header is not an allowed origin
+(--allowed-origin, MCP_ALLOWED_ORIGINS), caps request bodies at 1 MiB
+(MCP_MAX_BODY_BYTES) and sends security headers on every response.
+
+With --otlp-endpoint (or OTEL_EXPORTER_OTLP_ENDPOINT at runtime) the server
+sends OpenTelemetry spans for tool calls, dispatch, orchestration callTool,
+transforms and outbound fetches to the collector over OTLP/HTTP.
+
+With --sessions (or MCP_SESSIONS=1 at runtime) the HTTP server keeps MCP
+sessions: clients get an Mcp-Session-Id, can open a GET SSE stream for
+notifications and resume it, and end the session with DELETE. Idle sessions
+expire after MCP_SESSION_IDLE_MS.
+
+The exported server supports both transports regardless of --transport; run it
+with --stdio / --http or set MCP_TRANSPORT to pick one at runtime.
+
 Examples:
   mcpknife boot --prompt "Dictionary API" | mcpknife export
   mcpknife boot ... | mcpknife mod ... | mcpknife export --output-dir ./my-server
-  mcpknife boot ... | mcpknife mod ... | mcpknife ui | mcpknife export`);
+  mcpknife boot ... | mcpknife mod ... | mcpknife ui | mcpknife export
+  mcpknife boot ... | mcpknife export --transport stdio
+  mcpknife boot ... | mcpknife mod ... | mcpknife export --lang ts
+  mcpknife mod --upstream "npx some-server" ... | mcpknife export --upstream-command "npx some-server"`);
 }
 
 export function readUrlFromStdin(timeoutMs: number = 120000): Promise<string> {
@@ -115,11 +382,22 @@ export async function fetchMetadata(url: string): Promise<StageMetadata> {
   await client.connect(transport);
 
   try {
-    const result = await client.callTool(
-      { name: "_mcp_metadata", arguments: {} },
-      undefined,
-      { timeout: 300000 },
-    );
+    let result;
+    try {
+      result = await client.callTool(
+        { name: "_mcp_metadata", arguments: {} },
+        undefined,
+        { timeout: 300000 },
+      );
+    } catch (err) {
+      // Protocol-level rejection: the server does not know the tool
+      if (err instanceof McpError) throw new MetadataUnavailableError(url);
+      throw err;
+    }
+
+    if (result.isError) {
+      throw new MetadataUnavailableError(url);
+    }
 
     const content = result.content as Array<{ type: string; text: string }>;
     if (!content || content.length === 0 || !content[0].text) {
@@ -137,24 +415,276 @@ export async function crawlPipeline(url: string): Promise<StageMetadata[]> {
   let currentUrl: string | null = url;
 
   while (currentUrl) {
-    const metadata = await fetchMetadata(currentUrl);
+    let metadata: StageMetadata;
+    try {
+      metadata = await fetchMetadata(currentUrl);
+    } catch (err) {
+      // An upstream without _mcp_metadata is a third-party server: it becomes the root
+      if (err instanceof MetadataUnavailableError && stages.length > 0) {
+        stages.push(upstreamStage(null, currentUrl));
+        break;
+      }
+      throw err;
+    }
     stages.push(metadata);
     currentUrl = metadata.upstream_url ?? null;
+
+    // A non-boot stage with no upstream URL wraps a stdio server
+    if (!currentUrl && metadata.stage !== "boot") {
+      const command = typeof metadata.upstream_command === "string" ? metadata.upstream_command : null;
+      stages.push(upstreamStage(command, null));
+    }
   }
 
-  // Reverse so boot is first (root of chain)
+  // Reverse so the root (boot or upstream) is first
   stages.reverse();
   return stages;
 }
 
+function upstreamStage(command: string | null, url: string | null): UpstreamStage {
+  return { stage: "upstream", version: "external", upstream_url: null, command, url };
+}
+
+// Apply --upstream-command / --upstream-url to a synthesized upstream root
+export function applyUpstreamOverrides(stages: StageMetadata[], args: ExportArgs): void {
+  const root = stages[0];
+  if (!root || root.stage !== "upstream") return;
+
+  const upstream = root as UpstreamStage;
+  if (args.upstreamCommand) {
+    upstream.command = args.upstreamCommand;
+    upstream.url = null;
+  } else if (args.upstreamUrl) {
+    upstream.url = args.upstreamUrl;
+    upstream.command = null;
+  }
+}
+
+const LIMIT_KEYS: (keyof ToolLimits)[] = ["timeoutMs", "maxConcurrency", "maxResponseBytes"];
+
+function parseLimit(name: string, value: unknown, min: number): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < min) {
+    throw new Error(`Invalid ${name}: ${String(value)} (expected an integer >= ${min})`);
+  }
+  return n;
+}
+
+// Validate a limits object from the command line or a --limits file
+function parseToolLimits(raw: Record<string, unknown>, context: string): ToolLimits {
+  const limits: ToolLimits = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!LIMIT_KEYS.includes(key as keyof ToolLimits)) {
+      throw new Error(`Unknown limit in ${context}: ${key}. Available: ${LIMIT_KEYS.join(", ")}`);
+    }
+    if (value === null || value === undefined) continue;
+    limits[key as keyof ToolLimits] = parseLimit(`${context} ${key}`, value, key === "timeoutMs" ? 1 : 0);
+  }
+  return limits;
+}
+
+// Default limits from the flags, per-tool limits from the --limits file
+export function resolveLimits(args: ExportArgs): { limits: ToolLimits; toolLimits: Record<string, ToolLimits> } {
+  const limits = parseToolLimits(
+    { timeoutMs: args.timeoutMs, maxConcurrency: args.maxConcurrency, maxResponseBytes: args.maxResponseBytes },
+    "limit",
+  );
+
+  const toolLimits: Record<string, ToolLimits> = {};
+  if (args.limitsFile) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(args.limitsFile, "utf-8"));
+    } catch (err) {
+      throw new Error(`Cannot read limits file ${args.limitsFile}: ${(err as Error).message}`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Limits file ${args.limitsFile} must map tool names to limits`);
+    }
+    for (const [tool, raw] of Object.entries(parsed as Record<string, unknown>)) {
+      if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        throw new Error(`Limits for ${tool} in ${args.limitsFile} must be an object`);
+      }
+      toolLimits[tool] = parseToolLimits(raw as Record<string, unknown>, tool);
+    }
+  }
+
+  return { limits, toolLimits };
+}
+
+const RULE_KEYS: (keyof NetworkRule)[] = ["host", "schemes", "methods", "ports", "pathPrefix"];
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(v => typeof v === "string");
+}
+
+function checkNetworkRule(rule: unknown, where: string): NetworkRule {
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const r = rule as Record<string, unknown>;
+  for (const key of Object.keys(r)) {
+    if (!RULE_KEYS.includes(key as keyof NetworkRule)) {
+      throw new Error(`Unknown field in ${where}: ${key}. Available: ${RULE_KEYS.join(", ")}`);
+    }
+  }
+  if (r.host !== undefined && typeof r.host !== "string") throw new Error(`${where}.host must be a string`);
+  if (r.pathPrefix !== undefined && typeof r.pathPrefix !== "string") throw new Error(`${where}.pathPrefix must be a string`);
+  for (const key of ["schemes", "methods"] as const) {
+    if (r[key] !== undefined && !isStringArray(r[key])) throw new Error(`${where}.${key} must be an array of strings`);
+  }
+  if (r.ports !== undefined && !(Array.isArray(r.ports) && r.ports.every(p => Number.isInteger(p)))) {
+    throw new Error(`${where}.ports must be an array of integers`);
+  }
+  return r as NetworkRule;
+}
+
+// Cache settings from --cache-ttl and --cache-tool
+export function resolveCache(args: ExportArgs): CacheOptions {
+  const cache: CacheOptions = {};
+  if (args.cacheTtl !== null) cache.ttlSeconds = parseLimit("cache TTL", args.cacheTtl, 0);
+  for (const entry of args.cacheTools) {
+    const eqIdx = entry.indexOf("=");
+    if (eqIdx <= 0) throw new Error(`Invalid --cache-tool: ${entry} (expected NAME=SECONDS)`);
+    const name = entry.slice(0, eqIdx);
+    cache.tools = { ...cache.tools, [name]: parseLimit(`cache TTL for ${name}`, entry.slice(eqIdx + 1), 0) };
+  }
+  return cache;
+}
+
+// Outbound settings from --rate-limit and --fetch-retries
+export function resolveOutbound(args: ExportArgs): OutboundOptions {
+  const outbound: OutboundOptions = {};
+  if (args.fetchRetries !== null) outbound.retries = parseLimit("fetch retries", args.fetchRetries, 0);
+  for (const entry of args.rateLimits) {
+    const match = entry.match(/^([^=]+)=([0-9.]+)(?::([0-9]+))?$/);
+    const rate = match ? Number(match[2]) : NaN;
+    if (!match || !(rate > 0)) throw new Error(`Invalid --rate-limit: ${entry} (expected DOMAIN=RATE[:BURST])`);
+    outbound.rateLimits = {
+      ...outbound.rateLimits,
+      [match[1]]: match[3] ? { rate, burst: parseLimit(`burst for ${match[1]}`, match[3], 1) } : { rate },
+    };
+  }
+  return outbound;
+}
+
+function checkUrl(flag: string, value: string): string {
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`Invalid ${flag}: ${value} (expected a URL)`);
+  }
+  return value;
+}
+
+function isOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+// Origins from --allowed-origin: "*" or a scheme://host[:port] origin
+export function resolveAllowedOrigins(args: ExportArgs): string[] {
+  const bad = args.allowedOrigins.find(origin => origin !== "*" && !isOrigin(origin));
+  if (bad !== undefined) {
+    throw new Error(`Invalid --allowed-origin: ${bad} (expected an origin like https://app.example.com, or *)`);
+  }
+  return args.allowedOrigins;
+}
+
+// OAuth resource-server settings from the --oauth-* flags, if any
+export function resolveOAuth(args: ExportArgs): OAuthOptions | undefined {
+  if (!args.oauthIssuer) {
+    if (args.oauthAudience || args.oauthJwks || args.oauthScopes.length > 0) {
+      throw new Error("--oauth-audience, --oauth-jwks and --oauth-scope require --oauth-issuer");
+    }
+    return undefined;
+  }
+
+  const oauth: OAuthOptions = { issuer: checkUrl("--oauth-issuer", args.oauthIssuer) };
+  if (args.oauthAudience) oauth.audience = checkUrl("--oauth-audience", args.oauthAudience);
+  if (args.oauthJwks) oauth.jwksUri = checkUrl("--oauth-jwks", args.oauthJwks);
+  for (const entry of args.oauthScopes) {
+    const eqIdx = entry.indexOf("=");
+    const scopes = entry.slice(eqIdx + 1).split(",").map(s => s.trim()).filter(Boolean);
+    if (eqIdx <= 0 || scopes.length === 0) throw new Error(`Invalid --oauth-scope: ${entry} (expected TOOL=SCOPE[,SCOPE])`);
+    oauth.toolScopes = { ...oauth.toolScopes, [entry.slice(0, eqIdx)]: scopes };
+  }
+  return oauth;
+}
+
+// Read and validate a --network-policy file
+export function readNetworkPolicy(file: string): NetworkPolicy {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new Error(`Cannot read network policy ${file}: ${(err as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Network policy ${file} must be an object`);
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!["allow", "deny", "blockPrivate"].includes(key)) {
+      throw new Error(`Unknown field in network policy: ${key}. Available: allow, deny, blockPrivate`);
+    }
+  }
+  const policy: NetworkPolicy = {};
+  for (const key of ["allow", "deny"] as const) {
+    if (raw[key] === undefined) continue;
+    if (!Array.isArray(raw[key])) throw new Error(`Network policy ${key} must be an array of rules`);
+    policy[key] = (raw[key] as unknown[]).map((rule, i) => checkNetworkRule(rule, `${key}[${i}]`));
+  }
+  if (raw.blockPrivate !== undefined) {
+    if (typeof raw.blockPrivate !== "boolean") throw new Error("Network policy blockPrivate must be a boolean");
+    policy.blockPrivate = raw.blockPrivate;
+  }
+  return policy;
+}
+
 export async function runExport(argv: string[]): Promise<void> {
-  const { outputDir, help } = parseExportArgs(argv);
+  const args = parseExportArgs(argv);
+  const { outputDir, help } = args;
 
   if (help) {
     printExportHelp();
     return;
   }
 
+  if (!TRANSPORTS.includes(args.transport as ServerTransport)) {
+    throw new Error(`Unknown transport: ${args.transport}. Available: ${TRANSPORTS.join(", ")}`);
+  }
+  if (!LANGS.includes(args.lang as ExportLang)) {
+    throw new Error(`Unknown language: ${args.lang}. Available: ${LANGS.join(", ")}`);
+  }
+  if (!TRANSFORM_ERROR_POLICIES.includes(args.transformErrors as TransformErrorPolicy)) {
+    throw new Error(
+      `Unknown transform error policy: ${args.transformErrors}. Available: ${TRANSFORM_ERROR_POLICIES.join(", ")}`,
+    );
+  }
+  if (!SANDBOXES.includes(args.sandbox as SandboxBackend)) {
+    throw new Error(`Unknown sandbox: ${args.sandbox}. Available: ${SANDBOXES.join(", ")}`);
+  }
+  const badSecret = args.secrets.find(name => !SECRET_NAME.test(name));
+  if (badSecret !== undefined) {
+    throw new Error(`Invalid secret name: ${badSecret}. Use an environment variable name like API_KEY`);
+  }
+  const badEnv = args.upstreamEnv.find(name => !SECRET_NAME.test(name));
+  if (badEnv !== undefined) {
+    throw new Error(`Invalid --upstream-env name: ${badEnv}. Use an environment variable name like API_KEY`);
+  }
+  const { limits, toolLimits } = resolveLimits(args);
+  const cache = resolveCache(args);
+  const outbound = resolveOutbound(args);
+  const networkPolicy = args.networkPolicyFile ? readNetworkPolicy(args.networkPolicyFile) : undefined;
+  const oauth = resolveOAuth(args);
+  const allowedOrigins = resolveAllowedOrigins(args);
+  const otlpEndpoint = args.otlpEndpoint ? checkUrl("--otlp-endpoint", args.otlpEndpoint) : undefined;
+
   // Read upstream URL from stdin
   console.error("[export] Reading upstream URL from stdin...");
   const url = await readUrlFromStdin();
@@ -165,12 +695,40 @@ export async function runExport(argv: string[]): Promise<void> {
   const stages = await crawlPipeline(url);
   console.error(`[export] Found ${stages.length} stage(s): ${stages.map(s => s.stage).join(" → ")}`);
 
+  applyUpstreamOverrides(stages, args);
+  const root = stages[0] as UpstreamStage;
+  if (root.stage === "upstream" && !root.command && !root.url) {
+    console.error(
+      "[export] Warning: root upstream server is unknown. " +
+      "Pass --upstream-command or --upstream-url, or set UPSTREAM_COMMAND / UPSTREAM_URL when running the server.",
+    );
+  }
+
   // Generate project
   const absOutputDir = path.resolve(outputDir);
   console.error(`[export] Generating project in ${absOutputDir}...`);
-  await generateProject(stages, outputDir);
+  const lang = args.lang as ExportLang;
+  await generateProject(stages, outputDir, {
+    transport: args.transport as ServerTransport,
+    lang,
+    transformErrors: args.transformErrors as TransformErrorPolicy,
+    sandbox: args.sandbox as SandboxBackend,
+    secrets: args.secrets,
+    cache,
+    outbound,
+    networkPolicy,
+    limits,
+    toolLimits,
+    oauth,
+    allowedOrigins,
+    otlpEndpoint,
+    sessions: args.sessions,
+    upstreamEnv: args.upstreamEnv,
+  });
   console.error(`[export] Done! Project written to ${absOutputDir}`);
-  console.error(`[export] To run: cd ${absOutputDir} && npm install && node server.js`);
+  console.error(
+    `[export] To run: cd ${absOutputDir} && npm install && ${lang === "ts" ? "npm run build && " : ""}node server.js`,
+  );
 
   // Write absolute path to stdout when piped (enables: mcpknife export | mcpknife deploy)
   if (!process.stdout.isTTY) {
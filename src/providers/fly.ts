@@ -30,6 +30,7 @@ COPY package.json package-lock.json* ./
 RUN npm install --omit=dev
 COPY . .
 ENV PORT=8080
+ENV MCP_TRANSPORT=http
 EXPOSE 8080
 CMD ["node", "server.js"]
 `;
@@ -0,0 +1,108 @@
+// ABOUTME: Converts tool JSON Schemas into TypeScript type expressions for the TS export target.
+// ABOUTME: Covers the schema subset tools use in practice; anything else maps to unknown.
+
+type Schema = Record<string, unknown>;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function indentOf(depth: number): string {
+  return "  ".repeat(depth);
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function union(types: string[]): string {
+  const unique = Array.from(new Set(types));
+  return unique.length === 0 ? "unknown" : unique.join(" | ");
+}
+
+function objectType(schema: Schema, depth: number): string {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const keys = Object.keys(properties);
+
+  if (keys.length === 0) {
+    return "Record<string, unknown>";
+  }
+
+  const lines = keys.map(key => {
+    const prop = properties[key];
+    const optional = required.has(key) ? "" : "?";
+    const doc = typeof prop.description === "string"
+      ? `${indentOf(depth + 1)}/** ${prop.description.replace(/\*\//g, "*\\/")} */\n`
+      : "";
+    return `${doc}${indentOf(depth + 1)}${propertyKey(key)}${optional}: ${schemaToType(prop, depth + 1)};`;
+  });
+
+  if (schema.additionalProperties === true) {
+    lines.push(`${indentOf(depth + 1)}[key: string]: unknown;`);
+  }
+
+  return `{\n${lines.join("\n")}\n${indentOf(depth)}}`;
+}
+
+function singleType(type: string, schema: Schema, depth: number): string {
+  switch (type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const items = schema.items as Schema | undefined;
+      if (!items || typeof items !== "object" || Array.isArray(items)) return "unknown[]";
+      return `Array<${schemaToType(items, depth)}>`;
+    }
+    case "object":
+      return objectType(schema, depth);
+    default:
+      return "unknown";
+  }
+}
+
+// Translate a JSON Schema into a TypeScript type expression
+export function schemaToType(schema: Schema | undefined, depth: number = 0): string {
+  if (!schema || typeof schema !== "object") return "unknown";
+
+  if ("const" in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map(v => JSON.stringify(v)));
+  }
+  for (const key of ["anyOf", "oneOf"] as const) {
+    if (Array.isArray(schema[key])) {
+      return union((schema[key] as Schema[]).map(s => schemaToType(s, depth)));
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as Schema[]).map(s => schemaToType(s, depth)).join(" & ");
+  }
+
+  if (Array.isArray(schema.type)) {
+    return union((schema.type as string[]).map(t => singleType(t, schema, depth)));
+  }
+  if (typeof schema.type === "string") {
+    return singleType(schema.type, schema, depth);
+  }
+  if (schema.properties) {
+    return objectType(schema, depth);
+  }
+  return "unknown";
+}
+
+// PascalCase type name for a tool, e.g. "get_word-info" → "GetWordInfo"
+export function toTypeName(toolName: string): string {
+  const name = toolName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[A-Za-z]/.test(name) ? name : `Tool${name}`;
+}
@@ -5,7 +5,16 @@ import { describe, it, expect, afterEach } from "vitest";
 import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync } from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { parseDeployArgs, validateProjectDir, formatDeployOutput } from "../src/deploy.js";
+import {
+  parseDeployArgs,
+  validateProjectDir,
+  checkDeclaredSecrets,
+  formatDeployOutput,
+  updateKeys,
+  readKeyFile,
+  writeKeyFile,
+} from "../src/deploy.js";
+import crypto from "node:crypto";
 import {
   generateDockerfile,
   buildFlyLaunchArgs,
@@ -111,6 +120,21 @@ describe("parseDeployArgs", () => {
     expect(result.region).toBe("lax");
   });
 
+  it("parses named keys with optional tool lists", () => {
+    const result = parseDeployArgs(["--key", "team-a=search, lookup", "--key=ops", "--key", "team-b=*", "--rotate-key", "old", "--revoke-key=gone"]);
+    expect(result.keys).toEqual([
+      { name: "team-a", tools: ["search", "lookup"] },
+      { name: "ops", tools: null },
+      { name: "team-b", tools: "*" },
+    ]);
+    expect(result.rotateKeys).toEqual(["old"]);
+    expect(result.revokeKeys).toEqual(["gone"]);
+  });
+
+  it("rejects invalid key names", () => {
+    expect(() => parseDeployArgs(["--key", "team a"])).toThrow("Invalid key name");
+  });
+
   it("parses a full set of flags", () => {
     const result = parseDeployArgs([
       "--target", "fly",
@@ -157,6 +181,112 @@ describe("validateProjectDir", () => {
 
     expect(() => validateProjectDir(tmpDir)).not.toThrow();
   });
+
+  it("rejects an unbuilt TypeScript project", () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-test-"));
+    writeFileSync(path.join(tmpDir, "package.json"), "{}");
+    writeFileSync(path.join(tmpDir, "server.js"), 'import "./dist/server.js";');
+    writeFileSync(path.join(tmpDir, "tsconfig.json"), "{}");
+
+    expect(() => validateProjectDir(tmpDir)).toThrow("npm run build");
+  });
+});
+
+describe("checkDeclaredSecrets", () => {
+  let tmpDir: string;
+
+  afterEach(() => {
+    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("requires --env for each declared secret", () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-test-"));
+    writeFileSync(
+      path.join(tmpDir, "package.json"),
+      JSON.stringify({ mcpknife: { secrets: ["API_TOKEN", "OTHER_KEY"] } }),
+    );
+
+    expect(() => checkDeclaredSecrets(tmpDir, { API_TOKEN: "x" }))
+      .toThrow("Missing secrets declared by the project: OTHER_KEY");
+    expect(() => checkDeclaredSecrets(tmpDir, { API_TOKEN: "x", OTHER_KEY: "y", PORT: "1" })).not.toThrow();
+  });
+
+  it("accepts projects without declared secrets", () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-test-"));
+    writeFileSync(path.join(tmpDir, "package.json"), "{}");
+
+    expect(() => checkDeclaredSecrets(tmpDir, {})).not.toThrow();
+  });
+});
+
+describe("updateKeys", () => {
+  let tmpDir: string;
+
+  afterEach(() => {
+    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const sha256 = (key: string) => crypto.createHash("sha256").update(key).digest("hex");
+  const none = { keys: [], rotateKeys: [], revokeKeys: [] };
+
+  it("mints new keys and stores only their hashes", () => {
+    const { entries, minted } = updateKeys([], { ...none, keys: [{ name: "team-a", tools: ["search"] }] });
+
+    expect(minted).toHaveLength(1);
+    expect(minted[0]).toMatchObject({ name: "team-a", tools: ["search"] });
+    expect(entries).toEqual([
+      { name: "team-a", sha256: sha256(minted[0].key), tools: ["search"], created: expect.any(String) },
+    ]);
+  });
+
+  it("updates tools of an existing key without minting", () => {
+    const existing = [{ name: "team-a", sha256: "abc", tools: ["search"], created: "2026-01-01T00:00:00.000Z" }];
+
+    const kept = updateKeys(existing, { ...none, keys: [{ name: "team-a", tools: null }] });
+    expect(kept.minted).toEqual([]);
+    expect(kept.entries).toEqual(existing);
+
+    const changed = updateKeys(existing, { ...none, keys: [{ name: "team-a", tools: ["lookup"] }] });
+    expect(changed.minted).toEqual([]);
+    expect(changed.entries).toEqual([{ ...existing[0], tools: ["lookup"] }]);
+
+    const widened = updateKeys(existing, { ...none, keys: [{ name: "team-a", tools: "*" }] });
+    expect(widened.minted).toEqual([]);
+    expect(widened.entries).toEqual([{ name: "team-a", sha256: "abc", created: "2026-01-01T00:00:00.000Z" }]);
+  });
+
+  it("mints an unrestricted key for NAME=*", () => {
+    const { entries, minted } = updateKeys([], { ...none, keys: [{ name: "ops", tools: "*" }] });
+    expect(minted[0]).toMatchObject({ name: "ops", tools: null });
+    expect(entries[0].tools).toBeUndefined();
+  });
+
+  it("rotates and revokes existing keys", () => {
+    const existing = [
+      { name: "team-a", sha256: "abc", tools: ["search"], created: "2026-01-01T00:00:00.000Z" },
+      { name: "team-b", sha256: "def", created: "2026-01-01T00:00:00.000Z" },
+    ];
+
+    const { entries, minted } = updateKeys(existing, { ...none, rotateKeys: ["team-a"], revokeKeys: ["team-b"] });
+    expect(minted.map(k => k.name)).toEqual(["team-a"]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].sha256).toBe(sha256(minted[0].key));
+    expect(entries[0].tools).toEqual(["search"]);
+  });
+
+  it("rejects rotating or revoking unknown keys", () => {
+    expect(() => updateKeys([], { ...none, rotateKeys: ["nope"] })).toThrow("No API key named nope");
+    expect(() => updateKeys([], { ...none, revokeKeys: ["nope"] })).toThrow("No API key named nope");
+  });
+
+  it("round-trips keys.json", () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-keys-test-"));
+    expect(readKeyFile(tmpDir)).toEqual([]);
+
+    const entries = [{ name: "team-a", sha256: "abc", created: "2026-01-01T00:00:00.000Z" }];
+    writeKeyFile(tmpDir, entries);
+    expect(readKeyFile(tmpDir)).toEqual(entries);
+  });
 });
 
 describe("generateDockerfile", () => {
@@ -168,6 +298,7 @@ describe("generateDockerfile", () => {
     expect(dockerfile).toContain("RUN npm install --omit=dev");
     expect(dockerfile).toContain("COPY . .");
     expect(dockerfile).toContain("ENV PORT=8080");
+    expect(dockerfile).toContain("ENV MCP_TRANSPORT=http");
     expect(dockerfile).toContain("EXPOSE 8080");
     expect(dockerfile).toContain('CMD ["node", "server.js"]');
   });
@@ -250,6 +381,17 @@ describe("formatDeployOutput", () => {
     expect(result.stderr).toContain("Bearer sk-test");
   });
 
+  it("lists newly minted keys", () => {
+    const result = formatDeployOutput({
+      url: "https://my-app.fly.dev/mcp",
+      name: "my-app",
+      target: "fly",
+      apiKey: "sk-test",
+    }, [{ name: "team-a", key: "k-123", tools: ["search"] }]);
+
+    expect(result.stderr).toContain("team-a: k-123 (tools: search)");
+  });
+
   it("omits dashboard line when not provided", () => {
     const result = formatDeployOutput({
       url: "https://my-app.fly.dev/mcp",
@@ -295,6 +437,32 @@ describe("codegen auth", () => {
     expect(serverJs).toContain('req.url !== "/health"');
   });
 
+  it("generated server.js scopes tools to named API keys", async () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-keys-test-"));
+    const bootMetadata: StageMetadata = {
+      stage: "boot",
+      version: "0.1.0",
+      upstream_url: null,
+      whitelist_domains: [],
+      tools: [{
+        name: "test_tool",
+        description: "A test tool",
+        input_schema: { type: "object", properties: {} },
+        handler_code: 'return { content: [{ type: "text", text: "ok" }] };',
+        needs_network: false,
+      }],
+    };
+
+    await generateProject([bootMetadata], tmpDir);
+
+    const serverJs = readFileSync(path.join(tmpDir, "server.js"), "utf-8");
+    expect(serverJs).toContain("process.env.MCP_API_KEYS_FILE");
+    expect(serverJs).toContain('path.join(PROJECT_DIR, "keys.json")');
+    expect(serverJs).toContain("filter(t => !deniedReason(client, t.name))");
+    expect(serverJs).toContain('toolErrorResult(name, "forbidden"');
+    expect(serverJs).toContain("const context = { client, requestId, traceparent: req.headers[\"traceparent\"] };");
+  });
+
   it("generated server.js binds to 0.0.0.0 by default", async () => {
     tmpDir = mkdtempSync(path.join(os.tmpdir(), "deploy-host-test-"));
     const bootMetadata: StageMetadata = {
@@ -1,31 +1,36 @@
 // ABOUTME: Tests for the export subcommand (pipeline crawling and project generation).
 // ABOUTME: Uses fake metadata servers to simulate pipeline stages.
 
-import { describe, it, expect, afterEach } from "vitest";
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
 import { execFile, ChildProcess } from "node:child_process";
-import { mkdtempSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import http from "node:http";
 import { fileURLToPath } from "node:url";
-import { parseExportArgs, crawlPipeline, fetchMetadata } from "../src/export.js";
+import {
+  parseExportArgs, applyUpstreamOverrides, resolveLimits, resolveCache, resolveOutbound, resolveOAuth,
+  resolveAllowedOrigins, readNetworkPolicy, crawlPipeline, fetchMetadata,
+} from "../src/export.js";
 import { generateProject } from "../src/codegen.js";
 import type { StageMetadata } from "../src/export.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const FIXTURES = path.resolve(__dirname, "fixtures");
 
-// Start a fake metadata server from a JSON fixture file
+// Start a fake metadata server from a JSON fixture file, or a fake
+// third-party server when metadataPath is null
 function startFakeServer(
-  metadataPath: string,
+  metadataPath: string | null,
 ): Promise<{ url: string; proc: ChildProcess }> {
   return new Promise((resolve, reject) => {
+    const script = metadataPath ? "fake-metadata-server.js" : "fake-plain-server.js";
     const proc = execFile(
       process.execPath,
       [
         "--import", "tsx",
-        path.join(FIXTURES, "fake-metadata-server.js"),
-        metadataPath,
+        path.join(FIXTURES, script),
+        ...(metadataPath ? [metadataPath] : []),
       ],
       { timeout: 15000 },
     );
@@ -93,22 +98,130 @@ describe("parseExportArgs", () => {
     const result = parseExportArgs(["-h"]);
     expect(result.help).toBe(true);
   });
+
+  it("parses --lang", () => {
+    expect(parseExportArgs([]).lang).toBe("js");
+    expect(parseExportArgs(["--lang", "ts"]).lang).toBe("ts");
+    expect(parseExportArgs(["--lang=ts"]).lang).toBe("ts");
+  });
+
+  it("parses --transform-errors", () => {
+    expect(parseExportArgs([]).transformErrors).toBe("fail");
+    expect(parseExportArgs(["--transform-errors", "passthrough"]).transformErrors).toBe("passthrough");
+    expect(parseExportArgs(["--transform-errors=fallback"]).transformErrors).toBe("fallback");
+  });
+
+  it("parses --sandbox", () => {
+    expect(parseExportArgs([]).sandbox).toBe("process");
+    expect(parseExportArgs(["--sandbox", "worker"]).sandbox).toBe("worker");
+    expect(parseExportArgs(["--sandbox=vm"]).sandbox).toBe("vm");
+  });
+
+  it("parses repeated --secret flags", () => {
+    expect(parseExportArgs([]).secrets).toEqual([]);
+    expect(parseExportArgs(["--secret", "API_TOKEN", "--secret=OTHER_KEY"]).secrets)
+      .toEqual(["API_TOKEN", "OTHER_KEY"]);
+  });
+
+  it("parses cache flags", () => {
+    const args = parseExportArgs(["--cache-ttl", "60", "--cache-tool", "search=300", "--cache-tool=write=0"]);
+    expect(args.cacheTtl).toBe("60");
+    expect(args.cacheTools).toEqual(["search=300", "write=0"]);
+  });
+
+  it("parses outbound flags", () => {
+    const args = parseExportArgs(["--rate-limit", "api.example.com=5:10", "--rate-limit=*=1", "--fetch-retries", "3"]);
+    expect(args.rateLimits).toEqual(["api.example.com=5:10", "*=1"]);
+    expect(args.fetchRetries).toBe("3");
+  });
+
+  it("parses --network-policy", () => {
+    expect(parseExportArgs([]).networkPolicyFile).toBeNull();
+    expect(parseExportArgs(["--network-policy", "policy.json"]).networkPolicyFile).toBe("policy.json");
+  });
+
+  it("parses OAuth flags", () => {
+    const args = parseExportArgs([
+      "--oauth-issuer", "https://auth.example.com", "--oauth-audience=https://mcp.example.com/mcp",
+      "--oauth-jwks", "https://auth.example.com/jwks", "--oauth-scope", "delete=admin",
+    ]);
+    expect(args.oauthIssuer).toBe("https://auth.example.com");
+    expect(args.oauthAudience).toBe("https://mcp.example.com/mcp");
+    expect(args.oauthJwks).toBe("https://auth.example.com/jwks");
+    expect(args.oauthScopes).toEqual(["delete=admin"]);
+  });
+
+  it("parses --allowed-origin", () => {
+    expect(parseExportArgs([]).allowedOrigins).toEqual([]);
+    expect(parseExportArgs(["--allowed-origin", "https://a.example", "--allowed-origin=*"]).allowedOrigins)
+      .toEqual(["https://a.example", "*"]);
+  });
+
+  it("parses --sessions", () => {
+    expect(parseExportArgs([]).sessions).toBe(false);
+    expect(parseExportArgs(["--sessions"]).sessions).toBe(true);
+  });
+
+  it("parses --otlp-endpoint", () => {
+    expect(parseExportArgs([]).otlpEndpoint).toBeNull();
+    expect(parseExportArgs(["--otlp-endpoint", "http://localhost:4318"]).otlpEndpoint).toBe("http://localhost:4318");
+    expect(parseExportArgs(["--otlp-endpoint=http://collector:4318"]).otlpEndpoint).toBe("http://collector:4318");
+  });
+
+  it("parses limit flags", () => {
+    const args = parseExportArgs([
+      "--timeout-ms", "5000", "--max-concurrency=2", "--max-response-bytes", "1024", "--limits=limits.json",
+    ]);
+    expect(args.timeoutMs).toBe("5000");
+    expect(args.maxConcurrency).toBe("2");
+    expect(args.maxResponseBytes).toBe("1024");
+    expect(args.limitsFile).toBe("limits.json");
+  });
+
+  it("parses --transport", () => {
+    expect(parseExportArgs([]).transport).toBe("http");
+    expect(parseExportArgs(["--transport", "stdio"]).transport).toBe("stdio");
+    expect(parseExportArgs(["--transport=stdio"]).transport).toBe("stdio");
+  });
+
+  it("parses --upstream-command and --upstream-url", () => {
+    expect(parseExportArgs(["--upstream-command", "npx some-server"]).upstreamCommand)
+      .toBe("npx some-server");
+    expect(parseExportArgs(["--upstream-url=http://localhost:9000/mcp"]).upstreamUrl)
+      .toBe("http://localhost:9000/mcp");
+  });
+
+  it("parses repeated --upstream-env flags", () => {
+    expect(parseExportArgs([]).upstreamEnv).toEqual([]);
+    expect(parseExportArgs(["--upstream-env", "GITHUB_TOKEN", "--upstream-env=LOG_LEVEL"]).upstreamEnv)
+      .toEqual(["GITHUB_TOKEN", "LOG_LEVEL"]);
+  });
 });
 
 describe("generateProject", () => {
+  let bootFixture: StageMetadata;
+  let modFixture: StageMetadata;
   let tmpDir: string;
 
-  afterEach(() => {
-    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+  // Tests adjust their stages, so each gets its own copy of the fixtures
+  const boot = (): any => structuredClone(bootFixture);
+  const mod = (): any => ({ ...structuredClone(modFixture), upstream_url: null });
+
+  beforeAll(() => {
+    bootFixture = JSON.parse(readFileSync(path.join(FIXTURES, "boot-metadata.json"), "utf-8"));
+    modFixture = JSON.parse(readFileSync(path.join(FIXTURES, "mod-metadata.json"), "utf-8"));
   });
 
-  it("generates a boot-only project", async () => {
+  beforeEach(() => {
     tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
-    const bootMetadata = JSON.parse(
-      readFileSync(path.join(FIXTURES, "boot-metadata.json"), "utf-8"),
-    );
+  });
 
-    await generateProject([bootMetadata], tmpDir);
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("generates a boot-only project", async () => {
+    await generateProject([boot()], tmpDir);
 
     // Verify file structure
     expect(existsSync(path.join(tmpDir, "package.json"))).toBe(true);
@@ -133,16 +246,7 @@ describe("generateProject", () => {
   });
 
   it("generates a boot+mod project with synthetic tools", async () => {
-    tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
-    const bootMetadata = JSON.parse(
-      readFileSync(path.join(FIXTURES, "boot-metadata.json"), "utf-8"),
-    );
-    const modMetadata = JSON.parse(
-      readFileSync(path.join(FIXTURES, "mod-metadata.json"), "utf-8"),
-    );
-    modMetadata.upstream_url = null; // No need for actual upstream in generation
-
-    await generateProject([bootMetadata, modMetadata], tmpDir);
+    await generateProject([boot(), mod()], tmpDir);
 
     // Verify structure
     expect(existsSync(path.join(tmpDir, "handlers", "greet.js"))).toBe(true);
@@ -158,11 +262,237 @@ describe("generateProject", () => {
     expect(serverJs).toContain("greet_loudly");
   });
 
+  it("documents the call depth limit for orchestrations", async () => {
+    await generateProject([boot(), mod()], tmpDir);
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("MCP_MAX_CALL_DEPTH");
+  });
+
+  it("gives each stacked mod stage its own directories", async () => {
+    const renameMod: StageMetadata = {
+      stage: "mod",
+      version: "0.1.2",
+      upstream_url: null,
+      hidden_tools: ["greet_loudly"],
+      pass_through_tools: [
+        {
+          exposed_name: "shout",
+          upstream_name: "greet_loudly",
+          exposed_schema: { type: "object", properties: { who: { type: "string" } } },
+          input_transform_code: "return { name: args.who };",
+          output_transform_code: null,
+        },
+      ],
+      synthetic_tools: [],
+    };
+
+    await generateProject([boot(), mod(), renameMod], tmpDir);
+
+    expect(existsSync(path.join(tmpDir, "orchestrations", "mod1", "greet_loudly.js"))).toBe(true);
+    expect(existsSync(path.join(tmpDir, "transforms", "mod2", "shout.json"))).toBe(true);
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("Mod transform errors use the `fail` policy");
+  });
+
+  it("generates an upstream proxy for a non-boot root", async () => {
+    const upstream: StageMetadata = {
+      stage: "upstream",
+      version: "external",
+      upstream_url: null,
+      command: "npx some-server",
+      url: null,
+    };
+
+    await generateProject([upstream, mod()], tmpDir);
+
+    expect(existsSync(path.join(tmpDir, "handlers"))).toBe(false);
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("`npx some-server`");
+  });
+
+  it("documents the default transport", async () => {
+    await generateProject([boot()], tmpDir, { transport: "stdio" });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("The default transport is stdio.");
+    const pkg = JSON.parse(readFileSync(path.join(tmpDir, "package.json"), "utf-8"));
+    expect(pkg.scripts["start:stdio"]).toBe("node server.js --stdio");
+  });
+
+  it("generates a TypeScript project with --lang ts", async () => {
+    await generateProject([boot(), mod()], tmpDir, { lang: "ts" });
+
+    expect(existsSync(path.join(tmpDir, "tsconfig.json"))).toBe(true);
+    expect(existsSync(path.join(tmpDir, "src", "server.ts"))).toBe(true);
+    expect(existsSync(path.join(tmpDir, "handlers"))).toBe(false);
+
+    const pkg = JSON.parse(readFileSync(path.join(tmpDir, "package.json"), "utf-8"));
+    expect(pkg.scripts.build).toBe("tsc");
+    expect(pkg.devDependencies.typescript).toBeDefined();
+
+    // Input types come from the tool schemas
+    const types = readFileSync(path.join(tmpDir, "src", "types.ts"), "utf-8");
+    expect(types).toContain("export type GreetInput = {");
+    expect(types).toContain("name: string;");
+    expect(types).toContain('"greet_loudly": GreetLoudlyInput;');
+
+    // Handlers and orchestrations are typed modules
+    const handler = readFileSync(path.join(tmpDir, "src", "handlers", "greet.ts"), "utf-8");
+    expect(handler).toContain("export default async function handler(args: GreetInput)");
+    expect(handler).toContain('import type { GreetInput } from "../types.js";');
+    const orch = readFileSync(path.join(tmpDir, "src", "orchestrations", "greet_loudly.ts"), "utf-8");
+    expect(orch).toContain("(args: GreetLoudlyInput, callTool: CallTool)");
+  });
+
+  it("records a non-default transform error policy", async () => {
+    await generateProject([boot(), mod()], tmpDir, { transformErrors: "passthrough" });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("Mod transform errors use the `passthrough` policy");
+  });
+
+  it("documents per-tool limits", async () => {
+    await generateProject([boot()], tmpDir, {
+      limits: { timeoutMs: 5000 },
+      toolLimits: { greet: { maxConcurrency: 2 } },
+    });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("Each tool call has a 5000ms wall-clock timeout");
+    expect(readme).toContain("The export sets its own limits for `greet`.");
+  });
+
+  it("generates an isolated sandbox backend", async () => {
+    const bootMetadata = boot();
+    bootMetadata.tools[0].needs_network = true;
+
+    await generateProject([bootMetadata], tmpDir, { sandbox: "process" });
+
+    expect(existsSync(path.join(tmpDir, "sandbox-worker.js"))).toBe(true);
+
+    // The process sandbox relies on Node's permission model
+    const pkg = JSON.parse(readFileSync(path.join(tmpDir, "package.json"), "utf-8"));
+    expect(pkg.engines).toEqual({ node: ">=20.3" });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("This export runs it in a child process per call (`process`).");
+    expect(readme).toContain("pass-through tool with input and output transforms starts three");
+  });
+
+  it("declares secrets in package.json and the README", async () => {
+    const bootMetadata = boot();
+    bootMetadata.secrets = ["API_TOKEN"];
+
+    await generateProject([bootMetadata], tmpDir, { secrets: ["OTHER_KEY", "API_TOKEN"] });
+
+    const pkg = JSON.parse(readFileSync(path.join(tmpDir, "package.json"), "utf-8"));
+    expect(pkg.mcpknife.secrets).toEqual(["API_TOKEN", "OTHER_KEY"]);
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("## Secrets");
+    expect(readme).toContain("- `OTHER_KEY`");
+  });
+
+  it("types declared secrets in the TypeScript target", async () => {
+    await generateProject([boot()], tmpDir, { lang: "ts", secrets: ["API_TOKEN"] });
+
+    const types = readFileSync(path.join(tmpDir, "src", "types.ts"), "utf-8");
+    expect(types).toContain('  const secrets: Readonly<Record<"API_TOKEN", string>>;');
+  });
+
+  it("documents which tools the export caches", async () => {
+    await generateProject([boot()], tmpDir, { cache: { tools: { greet: 300 } } });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("Results of `greet` are cached.");
+  });
+
+  it("documents inbound rate limits", async () => {
+    await generateProject([boot()], tmpDir);
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("## Rate Limits");
+  });
+
+  it("documents the OAuth resource server only when configured", async () => {
+    await generateProject([boot()], tmpDir, {
+      oauth: { issuer: "https://auth.example.com", toolScopes: { greet: ["greet:write"] } },
+    });
+
+    let readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("OAuth 2.1 resource server for `https://auth.example.com`");
+    expect(readme).toContain("- `greet`: `greet:write`");
+
+    await generateProject([boot()], tmpDir);
+    readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).not.toContain("OAuth 2.1 resource server");
+  });
+
+  it("documents the exported allowed origins", async () => {
+    await generateProject([boot()], tmpDir, { allowedOrigins: ["https://app.example.com"] });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("exported default: `https://app.example.com`");
+  });
+
+  it("documents logs and metrics", async () => {
+    await generateProject([boot()], tmpDir);
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("## Logs and Metrics");
+  });
+
+  it("documents whether the export serves sessions", async () => {
+    await generateProject([boot()], tmpDir);
+    let readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("This export serves each POST statelessly");
+
+    await generateProject([boot()], tmpDir, { sessions: true });
+    readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("This export serves stateful Streamable HTTP sessions");
+  });
+
+  it("documents progress reporting and cancellation", async () => {
+    await generateProject([boot()], tmpDir);
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("`progress(pct, message)`");
+    expect(readme).toContain("When a client cancels a call (`notifications/cancelled`");
+  });
+
+  it("documents tracing and the exported OTLP endpoint", async () => {
+    await generateProject([boot(), mod()], tmpDir, { otlpEndpoint: "http://localhost:4318" });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("## Tracing");
+    expect(readme).toContain("exported default: `http://localhost:4318`");
+  });
+
+  it("documents the exported outbound retries", async () => {
+    const bootMetadata = boot();
+    bootMetadata.tools[0].needs_network = true;
+
+    await generateProject([bootMetadata], tmpDir, {
+      outbound: { rateLimits: { "api.example.com": { rate: 5 } }, retries: 4 },
+    });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("are retried up to 4 times");
+  });
+
+  it("documents the network policy for network tools", async () => {
+    const bootMetadata = boot();
+    bootMetadata.tools[0].needs_network = true;
+
+    await generateProject([bootMetadata], tmpDir, {
+      networkPolicy: { deny: [{ host: "api.example.com", methods: ["DELETE"] }] },
+    });
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("`fetch` follows an outbound network policy");
+  });
+
   it("generates a project with UI resources", async () => {
-    tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
-    const bootMetadata = JSON.parse(
-      readFileSync(path.join(FIXTURES, "boot-metadata.json"), "utf-8"),
-    );
     const uiMetadata: StageMetadata = {
       stage: "ui",
       version: "0.1.9",
@@ -176,7 +506,7 @@ describe("generateProject", () => {
       ],
     };
 
-    await generateProject([bootMetadata, uiMetadata], tmpDir);
+    await generateProject([boot(), uiMetadata], tmpDir);
 
     expect(existsSync(path.join(tmpDir, "ui", "greet.html"))).toBe(true);
     const html = readFileSync(path.join(tmpDir, "ui", "greet.html"), "utf-8");
@@ -192,6 +522,176 @@ describe("generateProject", () => {
     expect(serverJs).toContain('_meta');
     expect(serverJs).toContain('ui://greet');
   });
+
+  it("writes resources and resource template handlers for prompts and resources", async () => {
+    const bootMetadata = boot();
+    bootMetadata.resources = [
+      { uri: "docs://guide", name: "Guide", mime_type: "text/markdown", text: "# Guide" },
+    ];
+    const modMetadata = mod();
+    modMetadata.prompts = [
+      { name: "welcome", description: "Outer welcome", messages: [{ role: "user", text: "Hi {{who}}" }] },
+    ];
+    modMetadata.resource_templates = [
+      { name: "user", uri_template: "users://{id}", handler_code: "return 'user ' + args.id;" },
+    ];
+
+    await generateProject([bootMetadata, modMetadata], tmpDir);
+
+    // Static resources are stored in MCP shape; template handlers get their own files
+    expect(JSON.parse(readFileSync(path.join(tmpDir, "resources.json"), "utf-8"))).toEqual([
+      { uri: "docs://guide", name: "Guide", mimeType: "text/markdown", text: "# Guide" },
+    ]);
+    expect(readFileSync(path.join(tmpDir, "resource-templates", "user.js"), "utf-8"))
+      .toBe("return 'user ' + args.id;");
+
+    const readme = readFileSync(path.join(tmpDir, "README.md"), "utf-8");
+    expect(readme).toContain("## Prompts and Resources");
+    expect(readme).toContain("Resource templates: users://{id}");
+  });
+});
+
+describe("applyUpstreamOverrides", () => {
+  it("sets the command on a synthesized upstream root", () => {
+    const stages: StageMetadata[] = [
+      { stage: "upstream", version: "external", upstream_url: null, command: null, url: "http://old/mcp" },
+    ];
+    applyUpstreamOverrides(stages, { ...parseExportArgs([]), upstreamCommand: "npx some-server" });
+    expect(stages[0].command).toBe("npx some-server");
+    expect(stages[0].url).toBeNull();
+  });
+
+  it("leaves boot-rooted pipelines alone", () => {
+    const stages: StageMetadata[] = [{ stage: "boot", version: "0.1.2", upstream_url: null }];
+    applyUpstreamOverrides(stages, { ...parseExportArgs([]), upstreamUrl: "http://x/mcp" });
+    expect(stages[0].url).toBeUndefined();
+  });
+});
+
+describe("resolveLimits", () => {
+  let tmpDir: string;
+
+  afterEach(() => {
+    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("parses flag limits and a per-tool limits file", () => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
+    const limitsFile = path.join(tmpDir, "limits.json");
+    writeFileSync(limitsFile, JSON.stringify({ search: { timeoutMs: 60000, maxResponseBytes: 0 } }));
+
+    const { limits, toolLimits } = resolveLimits(
+      parseExportArgs(["--max-concurrency", "4", "--limits", limitsFile]),
+    );
+    expect(limits).toEqual({ maxConcurrency: 4 });
+    expect(toolLimits).toEqual({ search: { timeoutMs: 60000, maxResponseBytes: 0 } });
+  });
+
+  it("rejects invalid limits", () => {
+    expect(() => resolveLimits(parseExportArgs(["--timeout-ms", "0"]))).toThrow("Invalid limit timeoutMs");
+    expect(() => resolveLimits(parseExportArgs(["--max-concurrency", "-1"]))).toThrow("Invalid limit maxConcurrency");
+
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
+    const limitsFile = path.join(tmpDir, "limits.json");
+    writeFileSync(limitsFile, JSON.stringify({ search: { memoryMb: 64 } }));
+    expect(() => resolveLimits(parseExportArgs(["--limits", limitsFile]))).toThrow("Unknown limit in search: memoryMb");
+  });
+});
+
+describe("resolveCache", () => {
+  it("combines the default TTL with per-tool TTLs", () => {
+    expect(resolveCache(parseExportArgs([]))).toEqual({});
+    expect(resolveCache(parseExportArgs(["--cache-ttl=60", "--cache-tool", "write=0"])))
+      .toEqual({ ttlSeconds: 60, tools: { write: 0 } });
+  });
+
+  it("rejects malformed cache flags", () => {
+    expect(() => resolveCache(parseExportArgs(["--cache-tool", "search"]))).toThrow("expected NAME=SECONDS");
+    expect(() => resolveCache(parseExportArgs(["--cache-ttl", "soon"]))).toThrow("Invalid cache TTL");
+  });
+});
+
+describe("resolveOutbound", () => {
+  it("parses rate limits and retries", () => {
+    expect(resolveOutbound(parseExportArgs(["--rate-limit", "api.example.com=0.5", "--rate-limit", "*=10:20"])))
+      .toEqual({ rateLimits: { "api.example.com": { rate: 0.5 }, "*": { rate: 10, burst: 20 } } });
+    expect(resolveOutbound(parseExportArgs(["--fetch-retries", "0"]))).toEqual({ retries: 0 });
+  });
+
+  it("rejects malformed rate limits", () => {
+    expect(() => resolveOutbound(parseExportArgs(["--rate-limit", "api.example.com"])))
+      .toThrow("expected DOMAIN=RATE[:BURST]");
+    expect(() => resolveOutbound(parseExportArgs(["--rate-limit", "api.example.com=0"])))
+      .toThrow("Invalid --rate-limit");
+  });
+});
+
+describe("resolveOAuth", () => {
+  it("builds OAuth options from the flags", () => {
+    expect(resolveOAuth(parseExportArgs([]))).toBeUndefined();
+    expect(resolveOAuth(parseExportArgs([
+      "--oauth-issuer", "https://auth.example.com", "--oauth-scope", "search=read", "--oauth-scope", "delete=read, admin",
+    ]))).toEqual({
+      issuer: "https://auth.example.com",
+      toolScopes: { search: ["read"], delete: ["read", "admin"] },
+    });
+  });
+
+  it("rejects incomplete or malformed OAuth flags", () => {
+    expect(() => resolveOAuth(parseExportArgs(["--oauth-scope", "search=read"]))).toThrow("require --oauth-issuer");
+    expect(() => resolveOAuth(parseExportArgs(["--oauth-issuer", "auth.example.com"]))).toThrow("expected a URL");
+    expect(() => resolveOAuth(parseExportArgs(["--oauth-issuer", "https://a.example", "--oauth-scope", "search"])))
+      .toThrow("expected TOOL=SCOPE[,SCOPE]");
+  });
+});
+
+describe("resolveAllowedOrigins", () => {
+  it("accepts origins and *", () => {
+    expect(resolveAllowedOrigins(parseExportArgs(["--allowed-origin", "http://localhost:3000", "--allowed-origin", "*"])))
+      .toEqual(["http://localhost:3000", "*"]);
+  });
+
+  it("rejects values that are not origins", () => {
+    expect(() => resolveAllowedOrigins(parseExportArgs(["--allowed-origin", "https://a.example/app"])))
+      .toThrow("Invalid --allowed-origin");
+    expect(() => resolveAllowedOrigins(parseExportArgs(["--allowed-origin", "a.example"])))
+      .toThrow("Invalid --allowed-origin");
+  });
+});
+
+describe("readNetworkPolicy", () => {
+  const tmpDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tmpDirs) rmSync(dir, { recursive: true, force: true });
+    tmpDirs.length = 0;
+  });
+
+  function writePolicy(policy: unknown): string {
+    const tmpDir = mkdtempSync(path.join(os.tmpdir(), "export-test-"));
+    tmpDirs.push(tmpDir);
+    const file = path.join(tmpDir, "policy.json");
+    writeFileSync(file, JSON.stringify(policy));
+    return file;
+  }
+
+  it("reads allow and deny rules", () => {
+    const policy = {
+      allow: [{ host: "api.example.com", schemes: ["https"], pathPrefix: "/v1" }],
+      deny: [{ host: "*", ports: [22] }],
+      blockPrivate: false,
+    };
+    expect(readNetworkPolicy(writePolicy(policy))).toEqual(policy);
+  });
+
+  it("rejects malformed rules", () => {
+    expect(() => readNetworkPolicy(writePolicy({ allow: [{ hostname: "x" }] })))
+      .toThrow("Unknown field in allow[0]: hostname");
+    expect(() => readNetworkPolicy(writePolicy({ deny: [{ ports: ["22"] }] })))
+      .toThrow("deny[0].ports must be an array of integers");
+    expect(() => readNetworkPolicy(writePolicy({ blockPrivate: "no" })))
+      .toThrow("blockPrivate must be a boolean");
+  });
 });
 
 describe("crawlPipeline (with fake servers)", () => {
@@ -247,6 +747,61 @@ describe("crawlPipeline (with fake servers)", () => {
   }, 20000);
 });
 
+describe("crawlPipeline (third-party upstream root)", () => {
+  const servers: ChildProcess[] = [];
+  const tmpFiles: string[] = [];
+
+  afterEach(() => {
+    for (const proc of servers) {
+      proc.kill("SIGTERM");
+    }
+    servers.length = 0;
+    for (const f of tmpFiles) rmSync(f, { force: true });
+    tmpFiles.length = 0;
+  });
+
+  function writeModMetadata(overrides: Record<string, unknown>): string {
+    const modMetadata = JSON.parse(
+      readFileSync(path.join(FIXTURES, "mod-metadata.json"), "utf-8"),
+    );
+    const tmpPath = path.join(os.tmpdir(), `mod-metadata-${Date.now()}.json`);
+    writeFileSync(tmpPath, JSON.stringify({ ...modMetadata, ...overrides }));
+    tmpFiles.push(tmpPath);
+    return tmpPath;
+  }
+
+  it("records an HTTP server without _mcp_metadata as an upstream root", async () => {
+    const plain = await startFakeServer(null);
+    servers.push(plain.proc);
+
+    const modServer = await startFakeServer(writeModMetadata({ upstream_url: plain.url }));
+    servers.push(modServer.proc);
+
+    const stages = await crawlPipeline(modServer.url);
+    expect(stages).toHaveLength(2);
+    expect(stages[0]).toMatchObject({ stage: "upstream", command: null, url: plain.url });
+    expect(stages[1].stage).toBe("mod");
+  }, 20000);
+
+  it("records the stdio command of a mod stage with no upstream URL", async () => {
+    const modServer = await startFakeServer(
+      writeModMetadata({ upstream_url: null, upstream_command: "npx some-server" }),
+    );
+    servers.push(modServer.proc);
+
+    const stages = await crawlPipeline(modServer.url);
+    expect(stages.map(s => s.stage)).toEqual(["upstream", "mod"]);
+    expect(stages[0]).toMatchObject({ command: "npx some-server", url: null });
+  }, 15000);
+
+  it("rejects a pipeline whose entry point has no _mcp_metadata", async () => {
+    const plain = await startFakeServer(null);
+    servers.push(plain.proc);
+
+    await expect(crawlPipeline(plain.url)).rejects.toThrow("No _mcp_metadata tool");
+  }, 15000);
+});
+
 describe("fetchMetadata", () => {
   const servers: ChildProcess[] = [];
 
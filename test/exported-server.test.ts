@@ -0,0 +1,926 @@
+// ABOUTME: Behaviour tests for exported servers: generates a project, starts it over HTTP
+// ABOUTME: or stdio and drives real MCP calls against it.
+
+import { describe, it, expect, afterEach } from "vitest";
+import { execFile } from "node:child_process";
+import crypto from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import {
+  startExportedServer, createExportedProject, startStdioServer, freePort, type ExportedServer, type StdioServer,
+} from "./fixtures/exported-server.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES = path.resolve(__dirname, "fixtures");
+
+function bootStage(): any {
+  return JSON.parse(readFileSync(path.join(FIXTURES, "boot-metadata.json"), "utf-8"));
+}
+
+let server: ExportedServer | undefined;
+let stdio: StdioServer | undefined;
+let projectDir: string | undefined;
+let stubs: http.Server[] = [];
+
+afterEach(async () => {
+  await server?.stop();
+  server = undefined;
+  await stdio?.close();
+  stdio = undefined;
+  if (projectDir) rmSync(projectDir, { recursive: true, force: true });
+  projectDir = undefined;
+  await Promise.all(stubs.map(stub => new Promise(resolve => {
+    stub.closeAllConnections();
+    stub.close(resolve);
+  })));
+  stubs = [];
+});
+
+// Start a local HTTP server for the exported server to call
+async function startStub(handler: http.RequestListener): Promise<string> {
+  const stub = http.createServer(handler);
+  stubs.push(stub);
+  const port = await freePort();
+  await new Promise<void>(resolve => stub.listen(port, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${port}`;
+}
+
+// A boot stage with one network tool whose handler is the given code
+function networkStage(handlerCode: string): any {
+  return {
+    stage: "boot",
+    version: "0.1.2",
+    upstream_url: null,
+    whitelist_domains: ["127.0.0.1"],
+    tools: [{
+      name: "fetch_it",
+      description: "Fetch from the stub",
+      input_schema: { type: "object", properties: {} },
+      handler_code: handlerCode,
+      needs_network: true,
+    }],
+  };
+}
+
+// Loopback stubs are private addresses, so network tests allow them explicitly
+const LOOPBACK_POLICY = { allow: [{ host: "127.0.0.1" }], blockPrivate: false };
+
+describe("transport", () => {
+  it("serves over stdio without a flag when the export defaults to it", async () => {
+    projectDir = await createExportedProject([bootStage()], { transport: "stdio" });
+    stdio = await startStdioServer(projectDir, "server.js", {}, []);
+
+    const call = await stdio.request("tools/call", { name: "greet", arguments: { name: "Ada" } });
+    expect(call.result.content[0].text).toBe("Hello Ada!");
+  });
+});
+
+describe("argument validation", () => {
+  it("rejects invalid arguments with an invalid_arguments result", async () => {
+    server = await startExportedServer([bootStage()]);
+
+    const ok = await server.callTool("greet", { name: "Ada" });
+    expect(ok.content[0].text).toBe("Hello Ada!");
+
+    const bad = await server.callTool("greet", { name: 42 });
+    expect(bad.isError).toBe(true);
+    expect(bad._meta.error).toMatchObject({ category: "invalid_arguments", field: "name" });
+
+    const missing = await server.callTool("greet", {});
+    expect(missing._meta.error).toMatchObject({ category: "invalid_arguments", field: "name", message: "is required" });
+  });
+
+  it("reports a schema pattern that is invalid with the u flag as a tool error", async () => {
+    const boot = bootStage();
+    boot.tools[0].input_schema.properties.name.pattern = "^[\\w-.]+$";
+    server = await startExportedServer([boot]);
+
+    const result = await server.callTool("greet", { name: "Ada" });
+    expect(result.isError).toBe(true);
+    expect(result._meta.error).toMatchObject({ category: "invalid_arguments", field: "name" });
+    expect(server.logs()).toContain("Invalid pattern ^[\\\\w-.]+$");
+  });
+});
+
+describe("tool errors", () => {
+  it("reports failures as isError results with a category and message", async () => {
+    const boot = networkStage(`if (args.url) return await (await fetch(args.url)).text(); throw new Error("no such user");`);
+    boot.tools[0].input_schema.properties.url = { type: "string" };
+    server = await startExportedServer([boot]);
+
+    expect(await server.callTool("fetch_it")).toEqual({
+      content: [{ type: "text", text: "Tool fetch_it failed (handler_error): no such user" }],
+      _meta: { error: { category: "handler_error", message: "no such user" } },
+      isError: true,
+    });
+    const denied = await server.callTool("fetch_it", { url: "https://example.org/" });
+    expect(denied._meta.error.category).toBe("network_denied");
+    expect((await server.callTool("missing"))._meta.error.category).toBe("unknown_tool");
+  });
+});
+
+// A mod stage passing greet through with the given output transform
+function modStage(outputTransform: string | null, inputTransform: string | null = null): any {
+  return {
+    stage: "mod",
+    version: "0.1.2",
+    upstream_url: null,
+    hidden_tools: [],
+    pass_through_tools: [{
+      exposed_name: "greet",
+      upstream_name: "greet",
+      exposed_schema: bootStage().tools[0].input_schema,
+      input_transform_code: inputTransform,
+      output_transform_code: outputTransform,
+    }],
+    synthetic_tools: [],
+  };
+}
+
+// A mod stage whose synthetic tools call a transformed pass-through of greet and themselves
+function orchestrationStage(): any {
+  return {
+    ...modStage("return { content: [{ type: 'text', text: result.content[0].text.toUpperCase() }] };"),
+    synthetic_tools: [
+      {
+        name: "relay",
+        description: "Call greet as this stage exposes it",
+        input_schema: { type: "object", properties: { name: { type: "string" } } },
+        orchestration_code: "return await callTool('greet', { name: args.name });",
+        upstream_tools_used: ["greet"],
+      },
+      {
+        name: "recurse",
+        description: "Call itself forever",
+        input_schema: { type: "object", properties: {} },
+        orchestration_code: "return await callTool('recurse', {});",
+        upstream_tools_used: [],
+      },
+    ],
+  };
+}
+
+describe("orchestrations", () => {
+  it("call the tools their stage exposes and stop at MCP_MAX_CALL_DEPTH", async () => {
+    server = await startExportedServer([bootStage(), orchestrationStage()], {}, { MCP_MAX_CALL_DEPTH: "3" });
+
+    expect((await server.callTool("relay", { name: "Ada" })).content[0].text).toBe("HELLO ADA!");
+
+    const runaway = await server.callTool("recurse");
+    expect(runaway.isError).toBe(true);
+    expect(runaway._meta.error).toMatchObject({
+      category: "recursion_limit",
+      message: "Tool call depth exceeded 3 calling recurse from recurse",
+    });
+  });
+
+  it("refuses to start with an invalid MCP_MAX_CALL_DEPTH", async () => {
+    await expect(startExportedServer([bootStage(), orchestrationStage()], {}, { MCP_MAX_CALL_DEPTH: "abc" }))
+      .rejects.toThrow("Invalid MCP_MAX_CALL_DEPTH: abc (expected an integer >= 1)");
+  });
+});
+
+// boot -> a mod that hides greet behind greet_loudly -> a mod that renames it to shout
+function stackedPipeline(): any[] {
+  const nameSchema = { type: "object", properties: { name: { type: "string" } }, required: ["name"] };
+  const boot = bootStage();
+  boot.tools.push({
+    name: "measure",
+    description: "Measure a name",
+    input_schema: nameSchema,
+    handler_code: "return { name: args.name, length: args.name.length };",
+    needs_network: false,
+  });
+  const combine = JSON.parse(readFileSync(path.join(FIXTURES, "mod-metadata.json"), "utf-8"));
+  combine.upstream_url = null;
+  combine.pass_through_tools.push({ exposed_name: "measure", upstream_name: "measure", exposed_schema: nameSchema });
+  const rename = {
+    stage: "mod",
+    version: "0.1.2",
+    upstream_url: null,
+    hidden_tools: ["greet_loudly"],
+    pass_through_tools: [{
+      exposed_name: "shout",
+      upstream_name: "greet_loudly",
+      exposed_schema: { type: "object", properties: { who: { type: "string" } }, required: ["who"] },
+      input_transform_code: "return { name: args.who };",
+      output_transform_code: "return { content: [{ type: 'text', text: '<' + result.content[0].text + '>' }] };",
+    }, {
+      exposed_name: "measure",
+      upstream_name: "measure",
+      exposed_schema: nameSchema,
+      output_schema: {
+        type: "object",
+        properties: { name: { type: "string" }, length: { type: "number" }, stage: { type: "number" } },
+      },
+      output_transform_code: "return JSON.stringify({ ...JSON.parse(result.content[0].text), stage: 2 });",
+    }, {
+      exposed_name: "fragile",
+      upstream_name: "greet_loudly",
+      exposed_schema: nameSchema,
+      output_transform_code: "throw new Error('cannot reshape ' + result.content[0].text);",
+    }],
+    synthetic_tools: [],
+  };
+  return [boot, combine, rename];
+}
+
+describe("stacked mod stages", () => {
+  it("expose the outermost stage's tools and apply every stage in order", async () => {
+    server = await startExportedServer(stackedPipeline());
+
+    const listed = await server.rpc("tools/list");
+    expect(listed.body.result.tools.map((t: any) => t.name)).toEqual(["shout", "measure", "fragile"]);
+    expect((await server.callTool("shout", { who: "Ada" })).content[0].text).toBe("<HELLO ADA!!!!>");
+    expect((await server.callTool("greet", { name: "Ada" }))._meta.error.category).toBe("unknown_tool");
+  });
+
+  it("normalize plain object and string results into content and structuredContent", async () => {
+    server = await startExportedServer(stackedPipeline());
+
+    const listed = await server.rpc("tools/list");
+    const measure = listed.body.result.tools.find((t: any) => t.name === "measure");
+    expect(measure.outputSchema.properties).toHaveProperty("stage");
+
+    const result = await server.callTool("measure", { name: "Ada" });
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ name: "Ada", length: 3, stage: 2 });
+    expect(result.content).toEqual([{ type: "text", text: JSON.stringify({ name: "Ada", length: 3, stage: 2 }) }]);
+  });
+
+  it("fail a call whose transform throws unless passthrough is chosen", async () => {
+    server = await startExportedServer(stackedPipeline());
+    const failed = await server.callTool("fragile", { name: "Ada" });
+    expect(failed.isError).toBe(true);
+    expect(failed._meta.error.category).toBe("transform_error");
+    expect(failed.content[0].text).toContain("output transform failed for fragile: cannot reshape HELLO ADA!!!!");
+    await server.stop();
+
+    server = await startExportedServer(stackedPipeline(), { transformErrors: "passthrough" });
+    const passed = await server.callTool("fragile", { name: "Ada" });
+    expect(passed.isError).toBeFalsy();
+    expect(passed.content[0].text).toBe("HELLO ADA!!!!");
+  });
+});
+
+describe("sandbox", () => {
+  it("keeps the server's environment away from transform code by default", async () => {
+    const probe = `
+      const leaked = [];
+      const host = this.constructor.constructor("return process")();
+      if (host.env.MCP_API_KEY) leaked.push("process.env");
+      try {
+        const fs = host.getBuiltinModule("fs");
+        if (String(fs.readFileSync("/proc/self/environ")).includes("MCP_API_KEY")) leaked.push("/proc/self/environ");
+      } catch {}
+      return { content: [{ type: "text", text: JSON.stringify(leaked) }] };`;
+    server = await startExportedServer([bootStage(), modStage(probe)], {}, { MCP_API_KEY: "server-key" });
+
+    const result = await server.callTool("greet", { name: "Ada" }, { authorization: "Bearer server-key" });
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse(result.content[0].text)).toEqual([]);
+  });
+});
+
+describe("upstream proxy", () => {
+  it("passes a stdio upstream only the default environment and the named variables", async () => {
+    const upstream = {
+      stage: "upstream",
+      version: "external",
+      upstream_url: null,
+      command: `${process.execPath} ${path.join(FIXTURES, "fake-plain-server.js")} --stdio`,
+      url: null,
+    };
+    server = await startExportedServer([upstream], { upstreamEnv: ["SHARED_SETTING"] }, {
+      MCP_API_KEY: "server-key",
+      SHARED_SETTING: "on",
+      UNRELATED_SETTING: "on",
+    });
+
+    const result = await server.callTool("env", {}, { authorization: "Bearer server-key" });
+    const names = JSON.parse(result.content[0].text);
+    expect(names).toContain("SHARED_SETTING");
+    expect(names).toContain("PATH");
+    expect(names).not.toContain("MCP_API_KEY");
+    expect(names).not.toContain("UNRELATED_SETTING");
+  });
+});
+
+describe("tool limits", () => {
+  it.each(["process", "vm"] as const)("aborts the work of a timed-out call and frees its concurrency slot (%s)", async (sandbox) => {
+    let requests = 0;
+    let aborted = false;
+    const stub = await startStub((req, res) => {
+      if (++requests === 1) {
+        res.on("close", () => { aborted = true; });
+        return; // Hang until the client gives up
+      }
+      res.end("fast");
+    });
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}); return await res.text();`);
+    server = await startExportedServer([boot], {
+      sandbox,
+      networkPolicy: LOOPBACK_POLICY,
+      limits: { timeoutMs: 1000, maxConcurrency: 1 },
+    });
+
+    const slow = await server.callTool("fetch_it");
+    expect(slow._meta.error.category).toBe("timeout");
+    await expect.poll(() => aborted).toBe(true);
+
+    const fast = await server.callTool("fetch_it");
+    expect(fast.isError).toBeUndefined();
+    expect(fast.content[0].text).toBe("fast");
+  });
+
+  it("applies the per-tool limits baked into the export", async () => {
+    server = await startExportedServer([bootStage()], { toolLimits: { greet: { maxResponseBytes: 10 } } });
+    expect((await server.callTool("greet", { name: "Ada" }))._meta.error.category).toBe("response_too_large");
+  });
+
+  it("applies MCP_TOOL_LIMITS and refuses to start when a value is not a valid limit", async () => {
+    server = await startExportedServer([bootStage()], {}, { MCP_TOOL_LIMITS: '{"greet":{"maxResponseBytes":10}}' });
+    expect((await server.callTool("greet", { name: "Ada" }))._meta.error.category).toBe("response_too_large");
+    await server.stop();
+    server = undefined;
+
+    const invalid: [string, string][] = [
+      ['{"greet":{"timeoutMs":"abc"}}', "greet.timeoutMs must be an integer >= 1"],
+      ['{"greet":{"maxConcurrency":-1}}', "greet.maxConcurrency must be an integer >= 0"],
+      ['{"greet":{"timeout":5}}', "unknown limit greet.timeout"],
+      ['{"greet":5}', "limits for greet must be an object"],
+    ];
+    for (const [value, message] of invalid) {
+      await expect(startExportedServer([bootStage()], {}, { MCP_TOOL_LIMITS: value }))
+        .rejects.toThrow("Invalid MCP_TOOL_LIMITS: " + message);
+    }
+  });
+});
+
+describe("secrets", () => {
+  it.each(["vm", "process"] as const)("gives sandboxed code the declared secrets and nothing else (%s)", async (sandbox) => {
+    const boot = bootStage();
+    boot.secrets = ["API_TOKEN"];
+    boot.tools[0].handler_code = "return JSON.stringify(secrets);";
+    server = await startExportedServer([boot], { sandbox, secrets: ["OTHER_KEY"] }, {
+      API_TOKEN: "t0ken",
+      UNDECLARED: "hidden",
+    });
+
+    expect(JSON.parse((await server.callTool("greet", { name: "Ada" })).content[0].text)).toEqual({ API_TOKEN: "t0ken" });
+    expect(server.logs()).toContain("Missing secrets OTHER_KEY");
+  });
+});
+
+describe("response cache", () => {
+  it("serves repeated calls from the cache until the TTL runs out, except for excluded tools", async () => {
+    let requests = 0;
+    const stub = await startStub((req, res) => res.end(`response ${++requests}`));
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}); return await res.text();`);
+    boot.tools.push({ ...boot.tools[0], name: "fetch_fresh" });
+    server = await startExportedServer([boot], {
+      networkPolicy: LOOPBACK_POLICY,
+      cache: { ttlSeconds: 1, tools: { fetch_fresh: 0 } },
+    });
+    const text = async (name: string) => (await server!.callTool(name)).content[0].text;
+
+    expect(await text("fetch_it")).toBe("response 1");
+    expect(await text("fetch_it")).toBe("response 1");
+    expect(requests).toBe(1);
+
+    // A TTL of 0 excludes a tool from the cache
+    expect(await text("fetch_fresh")).toBe("response 2");
+    expect(await text("fetch_fresh")).toBe("response 3");
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(await text("fetch_it")).toBe("response 4");
+
+    const health = await (await fetch(server.url + "/health")).json();
+    expect(health.cache).toEqual({ hits: 1, misses: 2, entries: 1 });
+  });
+});
+
+describe("network policy", () => {
+  it("allows the boot stage's whitelisted domains when the policy has no allow rules", async () => {
+    const stub = await startStub((req, res) => res.end("reached"));
+    const boot = networkStage(`const res = await fetch(args.url); return await res.text();`);
+    boot.tools[0].input_schema.properties.url = { type: "string" };
+    server = await startExportedServer([boot], { networkPolicy: { blockPrivate: false } });
+
+    expect((await server.callTool("fetch_it", { url: stub })).content[0].text).toBe("reached");
+    const other = await server.callTool("fetch_it", { url: stub.replace("127.0.0.1", "localhost") });
+    expect(other._meta.error.category).toBe("network_denied");
+  });
+
+  it("refuses a host name that resolves to a loopback address when connecting", async () => {
+    let requests = 0;
+    const stub = await startStub((req, res) => { requests++; res.end("reached"); });
+    const port = new URL(stub).port;
+    const boot = networkStage(`const res = await fetch("http://localhost:${port}/"); return await res.text();`);
+    server = await startExportedServer([boot], { networkPolicy: { allow: [{ host: "localhost" }] } });
+
+    const result = await server.callTool("fetch_it");
+    expect(result._meta.error.category).toBe("network_denied");
+    expect(result._meta.error.message).toContain("localhost resolves to a private address");
+    expect(requests).toBe(0);
+  });
+
+  it("refuses private address literals and requests matching a deny rule", async () => {
+    const stub = await startStub((req, res) => res.end("reached"));
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}, { method: args.method }); return await res.text();`);
+    boot.tools[0].input_schema.properties.method = { type: "string" };
+
+    server = await startExportedServer([boot]);
+    const literal = await server.callTool("fetch_it", { method: "GET" });
+    expect(literal._meta.error).toMatchObject({ category: "network_denied" });
+    expect(literal._meta.error.message).toContain("private address");
+    await server.stop();
+
+    server = await startExportedServer([boot], {
+      networkPolicy: { ...LOOPBACK_POLICY, deny: [{ host: "127.0.0.1", methods: ["DELETE"] }] },
+    });
+    expect((await server.callTool("fetch_it", { method: "GET" })).content[0].text).toBe("reached");
+    const denied = await server.callTool("fetch_it", { method: "DELETE" });
+    expect(denied._meta.error.category).toBe("network_denied");
+    expect(denied._meta.error.message).toContain("matches a deny rule");
+  });
+});
+
+describe("outbound retries and rate limits", () => {
+  it("retries idempotent requests that get a 503, with backoff", async () => {
+    let requests = 0;
+    const stub = await startStub((req, res) => {
+      res.statusCode = ++requests < 3 ? 503 : 200;
+      res.end(`attempt ${requests}`);
+    });
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}); return res.status + " " + await res.text();`);
+    server = await startExportedServer([boot], { networkPolicy: LOOPBACK_POLICY }, { MCP_FETCH_RETRY_BASE_MS: "10" });
+
+    expect((await server.callTool("fetch_it")).content[0].text).toBe("200 attempt 3");
+  });
+
+  it("returns the 503 when the export sets no retries", async () => {
+    let requests = 0;
+    const stub = await startStub((req, res) => {
+      res.statusCode = ++requests < 3 ? 503 : 200;
+      res.end(`attempt ${requests}`);
+    });
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}); return res.status + " " + await res.text();`);
+    server = await startExportedServer([boot], { networkPolicy: LOOPBACK_POLICY, outbound: { retries: 0 } });
+
+    expect((await server.callTool("fetch_it")).content[0].text).toBe("503 attempt 1");
+  });
+
+  it("waits for Retry-After and does not retry a POST", async () => {
+    const times: number[] = [];
+    const stub = await startStub((req, res) => {
+      times.push(Date.now());
+      if (times.length === 1 || req.method === "POST") {
+        res.writeHead(429, { "retry-after": "1" });
+        res.end("slow down");
+        return;
+      }
+      res.end("ok");
+    });
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}, { method: args.method }); return res.status + " " + await res.text();`);
+    boot.tools[0].input_schema.properties.method = { type: "string" };
+    server = await startExportedServer([boot], { networkPolicy: LOOPBACK_POLICY });
+
+    expect((await server.callTool("fetch_it", { method: "GET" })).content[0].text).toBe("200 ok");
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(950);
+
+    times.length = 0;
+    expect((await server.callTool("fetch_it", { method: "POST" })).content[0].text).toBe("429 slow down");
+    expect(times).toHaveLength(1);
+  });
+
+  it("spaces requests to a rate-limited domain by its token bucket", async () => {
+    const times: number[] = [];
+    const stub = await startStub((req, res) => {
+      times.push(Date.now());
+      res.end("ok");
+    });
+    const boot = networkStage(`for (let i = 0; i < 3; i++) await (await fetch(${JSON.stringify(stub)})).text(); return "done";`);
+    server = await startExportedServer([boot], {
+      networkPolicy: LOOPBACK_POLICY,
+      outbound: { rateLimits: { "127.0.0.1": { rate: 4, burst: 1 } } },
+    });
+
+    expect((await server.callTool("fetch_it")).content[0].text).toBe("done");
+    expect(times).toHaveLength(3);
+    expect(times[2] - times[0]).toBeGreaterThanOrEqual(450);
+  });
+});
+
+describe("logs and metrics", () => {
+  it("logs each call and its console output as JSON with the request ID and counts it in /metrics", async () => {
+    const boot = bootStage();
+    boot.tools[0].handler_code = `console.log("greeting", args.name); return "Hello " + args.name;`;
+    server = await startExportedServer([boot], { sandbox: "worker" });
+
+    const res = await server.rpc("tools/call", { name: "greet", arguments: { name: "Ada" } }, { "x-request-id": "req-1" });
+    expect(res.headers.get("x-request-id")).toBe("req-1");
+    const entries = () => server!.logs().split("\n").filter(line => line.startsWith("{")).map(line => JSON.parse(line));
+    await expect.poll(entries).toContainEqual(expect.objectContaining({
+      level: "info", msg: "greeting Ada", tool: "greet", requestId: "req-1",
+    }));
+    expect(entries()).toContainEqual(expect.objectContaining({
+      level: "info", msg: "tool call", tool: "greet", requestId: "req-1", outcome: "ok",
+    }));
+
+    const metrics = await (await fetch(server.url + "/metrics")).text();
+    expect(metrics).toContain('mcp_tool_calls_total{tool="greet"} 1');
+    expect(metrics).toContain("# TYPE mcp_tool_call_duration_seconds histogram");
+  });
+});
+
+describe("inbound rate limits", () => {
+  it("limits unauthenticated clients by address, whatever Authorization they send", async () => {
+    server = await startExportedServer([bootStage()], {}, { MCP_RATE_LIMIT: "2" });
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const res = await server.rpc("tools/list", {}, { authorization: `Bearer rotated-${i}` });
+      statuses.push(res.status);
+      if (i === 0) {
+        expect(res.headers.get("ratelimit-limit")).toBe("2");
+        expect(res.headers.get("ratelimit-remaining")).toBe("1");
+      }
+      if (i === 3) {
+        expect(Number(res.headers.get("retry-after"))).toBeGreaterThan(0);
+        expect(res.body).toMatchObject({ error: "Too Many Requests" });
+      }
+    }
+    expect(statuses).toEqual([200, 200, 429, 429]);
+  });
+
+  it("gives each API key its own bucket and daily quota", async () => {
+    server = await startExportedServer([bootStage()], {}, {
+      MCP_API_KEYS: JSON.stringify([{ name: "a", key: "key-a" }, { name: "b", key: "key-b" }]),
+      MCP_DAILY_QUOTA: "1",
+    });
+
+    const first = await server.rpc("tools/list", {}, { authorization: "Bearer key-a" });
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-quota-remaining")).toBe("0");
+    expect((await server.rpc("tools/list", {}, { authorization: "Bearer key-a" })).status).toBe(429);
+    expect((await server.rpc("tools/list", {}, { authorization: "Bearer key-b" })).status).toBe(200);
+    expect((await server.rpc("tools/list", {}, { authorization: "Bearer wrong" })).status).toBe(401);
+  });
+});
+
+describe("API keys", () => {
+  it("refuses to start with malformed key lists, naming where they came from", async () => {
+    await expect(startExportedServer([bootStage()], {}, { MCP_API_KEYS: "[{" }))
+      .rejects.toThrow(/Invalid API keys in MCP_API_KEYS: .*JSON/);
+
+    const dir = mkdtempSync(path.join(os.tmpdir(), "api-keys-"));
+    try {
+      const file = path.join(dir, "keys.json");
+      writeFileSync(file, JSON.stringify([{ name: "a", sha256: "not-a-digest" }]));
+      await expect(startExportedServer([bootStage()], {}, { MCP_API_KEYS_FILE: file }))
+        .rejects.toThrow(`Invalid API keys in ${file}: API key a has an invalid sha256`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("HTTP hardening", () => {
+  it("refuses disallowed origins and oversized bodies and sends security headers", async () => {
+    server = await startExportedServer([bootStage()], { allowedOrigins: ["https://app.example.com"] }, {
+      MCP_MAX_BODY_BYTES: "200",
+    });
+
+    const plain = await server.rpc("tools/list");
+    expect(plain.status).toBe(200);
+    expect(plain.headers.get("x-content-type-options")).toBe("nosniff");
+    expect(plain.headers.get("access-control-allow-origin")).toBeNull();
+
+    const foreign = await server.rpc("tools/list", {}, { origin: "https://evil.example.com" });
+    expect(foreign.status).toBe(403);
+
+    const allowed = await server.rpc("tools/list", {}, { origin: "https://app.example.com" });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get("access-control-allow-origin")).toBe("https://app.example.com");
+
+    const big = await server.rpc("tools/call", { name: "greet", arguments: { name: "x".repeat(500) } });
+    expect(big.status).toBe(413);
+  });
+});
+
+describe("sessions", () => {
+  const INITIALIZE = { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "0" } };
+  const key = (name: string) => ({ authorization: "Bearer key-" + name });
+
+  it("issues session ids, keeps sessions to their client and ends them on DELETE", async () => {
+    server = await startExportedServer([bootStage()], { sessions: true }, {
+      MCP_API_KEYS: JSON.stringify([{ name: "a", key: "key-a" }, { name: "b", key: "key-b" }]),
+      MCP_MAX_SESSIONS: "1",
+    });
+    const call = { name: "greet", arguments: { name: "Ada" } };
+
+    const started = await server.rpc("initialize", INITIALIZE, key("a"));
+    expect(started.status).toBe(200);
+    const sessionId = started.headers.get("mcp-session-id")!;
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    const inSession = { ...key("a"), "mcp-session-id": sessionId };
+    expect((await server.rpc("tools/call", call, inSession)).body.result.content[0].text).toBe("Hello Ada!");
+
+    expect((await server.rpc("tools/call", call, key("a"))).status).toBe(400);
+    const unknown = await server.rpc("tools/call", call, { ...key("a"), "mcp-session-id": crypto.randomUUID() });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.error).toMatchObject({ code: -32001, message: "Session not found" });
+    expect((await server.rpc("tools/call", call, { ...key("b"), "mcp-session-id": sessionId })).status).toBe(404);
+
+    // MCP_MAX_SESSIONS=1: nobody gets a second session until the first ends
+    const full = await server.rpc("initialize", INITIALIZE, key("b"));
+    expect(full.status).toBe(503);
+    expect(full.body.error.message).toBe("Too many sessions");
+
+    const ended = await fetch(server.url + "/mcp", {
+      method: "DELETE",
+      headers: { ...inSession, "mcp-protocol-version": "2025-06-18" },
+    });
+    expect(ended.status).toBe(200);
+    expect((await server.rpc("tools/call", call, inSession)).status).toBe(404);
+    expect((await server.rpc("initialize", INITIALIZE, key("b"))).status).toBe(200);
+  });
+});
+
+describe("progress and cancellation", () => {
+  it("sends progress notifications to a client that passes a progressToken", async () => {
+    const boot = networkStage(`progress(25, "a quarter"); progress(75); return "done";`);
+    projectDir = await createExportedProject([boot]);
+    stdio = await startStdioServer(projectDir);
+
+    const call = await stdio.request("tools/call", { name: "fetch_it", arguments: {}, _meta: { progressToken: "p1" } });
+    expect(call.result.content[0].text).toBe("done");
+    expect(stdio.messages.filter(m => m.method === "notifications/progress").map(m => m.params)).toEqual([
+      { progressToken: "p1", progress: 25, total: 100, message: "a quarter" },
+      { progressToken: "p1", progress: 75, total: 100 },
+    ]);
+  });
+
+  it("stops a call the client cancels and aborts its requests", async () => {
+    let requested = false;
+    let aborted = false;
+    const stub = await startStub((req, res) => {
+      requested = true;
+      res.on("close", () => { aborted = true; });
+    });
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(stub)}); return await res.text();`);
+    projectDir = await createExportedProject([boot], { networkPolicy: LOOPBACK_POLICY });
+    stdio = await startStdioServer(projectDir);
+
+    stdio.send({ id: "slow", method: "tools/call", params: { name: "fetch_it", arguments: {} } });
+    await expect.poll(() => requested).toBe(true);
+    stdio.send({ method: "notifications/cancelled", params: { requestId: "slow", reason: "user gave up" } });
+
+    await expect.poll(() => aborted).toBe(true);
+    await expect.poll(() => stdio!.logs()).toMatch(/"msg":"tool call".*"category":"cancelled"/);
+  });
+});
+
+describe("resources", () => {
+  it("reads static and templated resources and reports unknown URIs as not found", async () => {
+    const boot = bootStage();
+    boot.resources = [{ uri: "docs://guide", name: "Guide", mime_type: "text/markdown", text: "# Guide" }];
+    boot.resource_templates = [{ name: "user", uri_template: "users://{id}", handler_code: "return 'user ' + args.id;" }];
+    server = await startExportedServer([boot]);
+
+    const guide = await server.rpc("resources/read", { uri: "docs://guide" });
+    expect(guide.body.result.contents).toEqual([{ uri: "docs://guide", mimeType: "text/markdown", text: "# Guide" }]);
+    const templates = await server.rpc("resources/templates/list");
+    expect(templates.body.result.resourceTemplates).toEqual([expect.objectContaining({ name: "user", uriTemplate: "users://{id}" })]);
+    const user = await server.rpc("resources/read", { uri: "users://42" });
+    expect(user.body.result.contents[0]).toMatchObject({ uri: "users://42", text: "user 42" });
+
+    const unknown = await server.rpc("resources/read", { uri: "docs://missing" });
+    expect(unknown.body.error).toMatchObject({
+      code: -32002,
+      message: expect.stringContaining("Resource not found"),
+      data: { uri: "docs://missing" },
+    });
+  });
+});
+
+describe("prompts", () => {
+  it("fills in only given arguments and rejects unknown prompts and missing arguments as invalid params", async () => {
+    const boot = bootStage();
+    boot.prompts = [{
+      name: "welcome",
+      arguments: [{ name: "who", required: true }],
+      messages: [{ role: "user", text: "Welcome {{who}}{{constructor}}{{toString}}" }],
+    }];
+    server = await startExportedServer([boot]);
+
+    const ok = await server.rpc("prompts/get", { name: "welcome", arguments: { who: "Ada" } });
+    expect(ok.body.result.messages).toEqual([{ role: "user", content: { type: "text", text: "Welcome Ada" } }]);
+
+    const unknown = await server.rpc("prompts/get", { name: "nope", arguments: {} });
+    expect(unknown.body.error).toMatchObject({ code: -32602, message: expect.stringContaining("Unknown prompt: nope") });
+
+    const missing = await server.rpc("prompts/get", { name: "welcome", arguments: { whom: "Ada" } });
+    expect(missing.body.error).toMatchObject({ code: -32602, message: expect.stringContaining("needs argument(s): who") });
+  });
+
+  it("serves the outermost stage's version of a prompt", async () => {
+    const boot = bootStage();
+    boot.prompts = [{ name: "welcome", arguments: [{ name: "who" }], messages: [{ role: "user", text: "Welcome {{who}}" }] }];
+    const mod = modStage(null);
+    mod.prompts = [{
+      name: "welcome",
+      description: "Outer welcome",
+      arguments: [{ name: "who" }],
+      messages: [{ role: "user", text: "Hi {{who}}" }],
+    }];
+    server = await startExportedServer([boot, mod]);
+
+    const listed = await server.rpc("prompts/list");
+    expect(listed.body.result.prompts).toEqual([expect.objectContaining({ name: "welcome", description: "Outer welcome" })]);
+    const got = await server.rpc("prompts/get", { name: "welcome", arguments: { who: "Ada" } });
+    expect(got.body.result.messages).toEqual([{ role: "user", content: { type: "text", text: "Hi Ada" } }]);
+  });
+});
+
+describe("tracing", () => {
+  // An OTLP/HTTP collector stand-in that keeps every span POSTed to it
+  async function startCollector(): Promise<{ url: string; spans: any[] }> {
+    const spans: any[] = [];
+    const url = await startStub((req, res) => {
+      let body = "";
+      req.on("data", chunk => { body += chunk; });
+      req.on("end", () => {
+        if (req.url === "/v1/traces") {
+          for (const resource of JSON.parse(body).resourceSpans) {
+            for (const scope of resource.scopeSpans) spans.push(...scope.spans);
+          }
+        }
+        res.setHeader("content-type", "application/json");
+        res.end("{}");
+      });
+    });
+    return { url, spans };
+  }
+
+  // A synthetic tool that calls a transformed pass-through of a network tool
+  function tracedPipeline(target: string): any[] {
+    const boot = networkStage(`const res = await fetch(${JSON.stringify(target)}); return await res.text();`);
+    const mod = {
+      stage: "mod",
+      version: "0.1.2",
+      upstream_url: null,
+      hidden_tools: [],
+      pass_through_tools: [{
+        exposed_name: "fetch_it",
+        upstream_name: "fetch_it",
+        exposed_schema: boot.tools[0].input_schema,
+        input_transform_code: null,
+        output_transform_code: "return { content: [{ type: 'text', text: 'relayed ' + result.content[0].text }] };",
+      }],
+      synthetic_tools: [{
+        name: "relay",
+        description: "Call fetch_it",
+        input_schema: { type: "object", properties: {} },
+        orchestration_code: "return await callTool('fetch_it', {});",
+        upstream_tools_used: ["fetch_it"],
+      }],
+    };
+    return [boot, mod];
+  }
+
+  it("exports nested spans for a call and passes the trace context on", async () => {
+    const collector = await startCollector();
+    const target = await startStub((req, res) => res.end(String(req.headers.traceparent)));
+    server = await startExportedServer(tracedPipeline(target), { networkPolicy: LOOPBACK_POLICY, otlpEndpoint: collector.url });
+
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const result = await server.callTool("relay", {}, { traceparent: `00-${traceId}-00f067aa0ba902b7-01` });
+    await server.stop();
+
+    const span = (name: string) => {
+      const found = collector.spans.filter(s => s.name === name);
+      expect(found, name).toHaveLength(1);
+      return found[0];
+    };
+    const request = span("tools/call relay");
+    const dispatch = span("dispatchTool relay");
+    const call = span("callTool fetch_it");
+    const transform = span("transform output fetch_it");
+    const fetchSpan = span("fetch GET");
+
+    expect(collector.spans.every(s => s.traceId === traceId)).toBe(true);
+    expect(request).toMatchObject({ parentSpanId: "00f067aa0ba902b7", kind: 2 });
+    expect(dispatch.parentSpanId).toBe(request.spanId);
+    expect(call.parentSpanId).toBe(dispatch.spanId);
+    expect(transform.parentSpanId).toBe(call.spanId);
+    expect(fetchSpan).toMatchObject({ parentSpanId: call.spanId, kind: 3 });
+    expect(result.content[0].text).toBe(`relayed 00-${traceId}-${fetchSpan.spanId}-01`);
+  });
+
+  it("sends pending spans before a stdio server exits", async () => {
+    const collector = await startCollector();
+    projectDir = await createExportedProject([bootStage()]);
+    stdio = await startStdioServer(projectDir, "server.js", { OTEL_EXPORTER_OTLP_ENDPOINT: collector.url });
+
+    const call = await stdio.request("tools/call", { name: "greet", arguments: { name: "Ada" } });
+    expect(call.result.content[0].text).toBe("Hello Ada!");
+
+    // The client going away ends the server before the periodic export would run
+    expect(await stdio.close()).toBe(0);
+    expect(collector.spans.map(s => s.name)).toContain("tools/call greet");
+  });
+});
+
+describe("OAuth", () => {
+  const AUDIENCE = "https://mcp.example.test/mcp";
+  const METADATA_URL = "https://mcp.example.test/.well-known/oauth-protected-resource/mcp";
+
+  function signToken(key: crypto.KeyObject, claims: Record<string, unknown>): string {
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+    const signed = encode({ alg: "RS256", kid: "k1", typ: "JWT" }) + "." + encode(claims);
+    return signed + "." + crypto.sign("sha256", Buffer.from(signed), key).toString("base64url");
+  }
+
+  it("verifies access tokens against the issuer's keys and enforces tool scopes", async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: "jwk" }), kid: "k1", alg: "RS256", use: "sig" };
+    let issuer = "";
+    issuer = await startStub((req, res) => {
+      res.setHeader("content-type", "application/json");
+      if (req.url === "/.well-known/oauth-authorization-server") res.end(JSON.stringify({ issuer, jwks_uri: issuer + "/jwks" }));
+      else if (req.url === "/jwks") res.end(JSON.stringify({ keys: [jwk] }));
+      else { res.statusCode = 404; res.end("{}"); }
+    });
+
+    const boot = bootStage();
+    boot.tools.push({ ...boot.tools[0], name: "shout" });
+    server = await startExportedServer([boot], { oauth: { issuer, audience: AUDIENCE, toolScopes: { shout: ["admin"] } } });
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { iss: issuer, aud: AUDIENCE, sub: "ada", exp: now + 300, scope: "read" };
+    const bearer = (token: string) => ({ authorization: "Bearer " + token });
+
+    const anonymous = await server.rpc("tools/list");
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get("www-authenticate")).toBe(`Bearer resource_metadata="${METADATA_URL}"`);
+
+    const rejected = [
+      [signToken(crypto.generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey, claims), "invalid signature"],
+      [signToken(privateKey, { ...claims, exp: now - 600 }), "token expired"],
+      [signToken(privateKey, { ...claims, aud: "https://other.example.test/mcp" }), "wrong audience"],
+      [signToken(privateKey, { ...claims, iss: "https://evil.example.test" }), "wrong issuer"],
+    ];
+    for (const [token, reason] of rejected) {
+      const res = await server.rpc("tools/list", {}, bearer(token));
+      expect(res.status, reason).toBe(401);
+      expect(res.headers.get("www-authenticate")).toBe(
+        `Bearer resource_metadata="${METADATA_URL}", error="invalid_token", error_description="${reason}"`);
+    }
+
+    const metadata = await fetch(server.url + "/.well-known/oauth-protected-resource/mcp");
+    expect(await metadata.json()).toEqual({
+      resource: AUDIENCE,
+      authorization_servers: [issuer],
+      bearer_methods_supported: ["header"],
+      scopes_supported: ["admin"],
+    });
+
+    // A token without the tool's scope neither sees nor calls it
+    const reader = bearer(signToken(privateKey, claims));
+    const readerTools = await server.rpc("tools/list", {}, reader);
+    expect(readerTools.body.result.tools.map((t: any) => t.name)).toEqual(["greet"]);
+    expect((await server.callTool("greet", { name: "Ada" }, reader)).content[0].text).toBe("Hello Ada!");
+    const forbidden = await server.callTool("shout", { name: "Ada" }, reader);
+    expect(forbidden._meta.error).toMatchObject({ category: "forbidden", message: "Token lacks scope admin for shout" });
+
+    const admin = bearer(signToken(privateKey, { ...claims, scope: "read admin" }));
+    const adminTools = await server.rpc("tools/list", {}, admin);
+    expect(adminTools.body.result.tools.map((t: any) => t.name)).toEqual(["greet", "shout"]);
+    expect((await server.callTool("shout", { name: "Ada" }, admin)).content[0].text).toBe("Hello Ada!");
+  });
+});
+
+describe("TypeScript target", () => {
+  it("compiles with tsc and answers over stdio from dist/server.js", async () => {
+    const mod = JSON.parse(readFileSync(path.join(FIXTURES, "mod-metadata.json"), "utf-8"));
+    mod.upstream_url = null;
+    projectDir = await createExportedProject([bootStage(), mod], { lang: "ts" });
+
+    const tsc = path.join(projectDir, "node_modules", "typescript", "bin", "tsc");
+    const { stdout } = await promisify(execFile)(process.execPath, [tsc, "-p", projectDir], { timeout: 110000 })
+      .catch(err => ({ stdout: err.stdout || err.message }));
+    expect(stdout).toBe("");
+
+    stdio = await startStdioServer(projectDir, "dist/server.js");
+    const listed = await stdio.request("tools/list");
+    expect(listed.result.tools.map((t: any) => t.name)).toEqual(["greet_loudly"]);
+    const call = await stdio.request("tools/call", { name: "greet_loudly", arguments: { name: "Ada" } });
+    expect(call.result.content[0].text).toBe("HELLO ADA!!!!");
+  }, 120000);
+});
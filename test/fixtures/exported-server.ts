@@ -0,0 +1,224 @@
+// ABOUTME: Test harness that generates an exported MCP server and runs it over HTTP or stdio.
+// ABOUTME: Lets tests drive real JSON-RPC calls against the generated server.
+
+import { spawn, ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync, symlinkSync } from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { generateProject, type CodegenOptions } from "../../src/codegen.js";
+import type { StageMetadata } from "../../src/export.js";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+export interface RpcResponse {
+  status: number;
+  headers: Headers;
+  body: any;            // The JSON-RPC message (or the raw text of a non-JSON response)
+}
+
+export interface ExportedServer {
+  url: string;          // Base URL, e.g. http://127.0.0.1:54321
+  dir: string;          // The generated project
+  logs(): string;       // Everything the server has written so far
+  rpc(method: string, params?: unknown, headers?: Record<string, string>): Promise<RpcResponse>;
+  callTool(name: string, args?: unknown, headers?: Record<string, string>): Promise<any>;
+  stop(): Promise<void>;
+}
+
+export interface StdioServer {
+  logs(): string;       // What the server has written to stderr
+  request(method: string, params?: unknown): Promise<any>;  // The JSON-RPC response
+  send(message: object): void;  // Any message, e.g. a request whose answer is not awaited
+  messages: any[];      // Every message the server has sent, notifications included
+  close(): Promise<number | null>;  // Ends stdin and waits for the exit code
+}
+
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// The JSON-RPC message in a Streamable HTTP response, which may be SSE or JSON
+async function readMessage(res: Response): Promise<any> {
+  const text = await res.text();
+  if ((res.headers.get("content-type") ?? "").includes("text/event-stream")) {
+    const data = text.split("\n").filter(line => line.startsWith("data: ")).map(line => JSON.parse(line.slice(6)));
+    return data.find(message => "result" in message || "error" in message) ?? data[data.length - 1];
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function waitForListening(proc: ChildProcess, output: () => string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Server did not start:\n" + output())), 15000);
+    const check = () => {
+      if (output().includes("Exported MCP server listening")) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    proc.stdout!.on("data", check);
+    proc.on("exit", code => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with ${code}:\n` + output()));
+    });
+  });
+}
+
+// Generate a project from the stages into a temporary directory that resolves this
+// repo's node_modules. The caller removes it.
+export async function createExportedProject(stages: StageMetadata[], options: CodegenOptions = {}): Promise<string> {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "exported-server-"));
+  await generateProject(stages, dir, options);
+  symlinkSync(path.join(ROOT, "node_modules"), path.join(dir, "node_modules"), "dir");
+  return dir;
+}
+
+// Generate a project from the stages and start its HTTP server. env is the server's
+// whole environment besides PATH, PORT and HOST.
+export async function startExportedServer(
+  stages: StageMetadata[],
+  options: CodegenOptions = {},
+  env: Record<string, string> = {},
+): Promise<ExportedServer> {
+  const dir = await createExportedProject(stages, options);
+
+  const port = await freePort();
+  const proc = spawn(process.execPath, ["server.js", "--http"], {
+    cwd: dir,
+    env: { PATH: process.env.PATH ?? "", PORT: String(port), HOST: "127.0.0.1", ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let output = "";
+  proc.stdout!.on("data", chunk => { output += chunk; });
+  proc.stderr!.on("data", chunk => { output += chunk; });
+
+  const url = `http://127.0.0.1:${port}`;
+  const stop = async () => {
+    if (proc.exitCode === null && proc.signalCode === null) {
+      const exited = new Promise(resolve => proc.once("exit", resolve));
+      proc.kill("SIGTERM");
+      const timer = setTimeout(() => proc.kill("SIGKILL"), 5000);
+      await exited;
+      clearTimeout(timer);
+    }
+    rmSync(dir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitForListening(proc, () => output);
+  } catch (err) {
+    await stop();
+    throw err;
+  }
+
+  let nextId = 1;
+  const rpc = async (method: string, params: unknown = {}, headers: Record<string, string> = {}) => {
+    const res = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        "mcp-protocol-version": "2025-06-18",
+        ...headers,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+    });
+    return { status: res.status, headers: res.headers, body: await readMessage(res) };
+  };
+
+  return {
+    url,
+    dir,
+    logs: () => output,
+    rpc,
+    callTool: async (name, args = {}, headers = {}) => {
+      const { body } = await rpc("tools/call", { name, arguments: args }, headers);
+      if (body.error) throw new Error(`tools/call ${name} failed: ${JSON.stringify(body.error)}`);
+      return body.result;
+    },
+    stop,
+  };
+}
+
+// Run a generated project's entry point over stdio and initialize an MCP session.
+// env is the server's whole environment besides PATH; args select the transport.
+export async function startStdioServer(
+  dir: string,
+  entry = "server.js",
+  env: Record<string, string> = {},
+  args = ["--stdio"],
+): Promise<StdioServer> {
+  const proc = spawn(process.execPath, [entry, ...args], {
+    cwd: dir,
+    env: { PATH: process.env.PATH ?? "", ...env },
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  let errors = "";
+  proc.stderr!.on("data", chunk => { errors += chunk; });
+  const exited = new Promise<number | null>(resolve => proc.once("exit", code => resolve(code)));
+
+  const messages: any[] = [];
+  const pending = new Map<number, (message: any) => void>();
+  let buffered = "";
+  proc.stdout!.on("data", chunk => {
+    buffered += chunk;
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const line of lines.filter(Boolean)) {
+      const message = JSON.parse(line);
+      messages.push(message);
+      if ("id" in message && ("result" in message || "error" in message)) pending.get(message.id)?.(message);
+    }
+  });
+
+  const send = (message: object) => proc.stdin!.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+  let nextId = 1;
+  const request = (method: string, params: unknown = {}) => {
+    const id = nextId++;
+    const answered = new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`No answer to ${method}:\n` + errors)), 15000);
+      pending.set(id, message => {
+        clearTimeout(timer);
+        resolve(message);
+      });
+    });
+    send({ id, method, params });
+    return answered;
+  };
+  const close = async () => {
+    proc.stdin!.end();
+    const timer = setTimeout(() => proc.kill("SIGKILL"), 5000);
+    const code = await exited;
+    clearTimeout(timer);
+    return code;
+  };
+
+  try {
+    await request("initialize", { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "0" } });
+  } catch (err) {
+    await close();
+    throw err;
+  }
+  send({ method: "notifications/initialized" });
+
+  return {
+    logs: () => errors,
+    request,
+    send,
+    messages,
+    close,
+  };
+}
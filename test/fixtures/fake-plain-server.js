@@ -0,0 +1,85 @@
+// ABOUTME: Fake third-party MCP server with no _mcp_metadata tool.
+// ABOUTME: Serves "echo" and "env" tools over Streamable HTTP, or over stdio with --stdio.
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  McpError,
+  ErrorCode,
+} from "@modelcontextprotocol/sdk/types.js";
+import http from "node:http";
+
+function createServer() {
+  const mcpServer = new Server(
+    { name: "fake-plain-server", version: "0.1.0" },
+    { capabilities: { tools: {} } },
+  );
+
+  mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{
+      name: "echo",
+      description: "Echo the given text",
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+    }, {
+      name: "env",
+      description: "List the names of the server's environment variables",
+      inputSchema: { type: "object", properties: {} },
+    }],
+  }));
+
+  mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    if (name === "env") {
+      return { content: [{ type: "text", text: JSON.stringify(Object.keys(process.env).sort()) }] };
+    }
+    if (name !== "echo") {
+      throw new McpError(ErrorCode.InvalidParams, `Tool ${name} not found`);
+    }
+    return { content: [{ type: "text", text: "echo: " + args.text }] };
+  });
+
+  return mcpServer;
+}
+
+if (process.argv.includes("--stdio")) {
+  await createServer().connect(new StdioServerTransport());
+} else {
+  const httpServer = http.createServer(async (req, res) => {
+    if (req.method === "POST" && (req.url === "/mcp" || req.url === "/")) {
+      const mcpServer = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      const chunks = [];
+      for await (const chunk of req) chunks.push(chunk);
+      const body = JSON.parse(Buffer.concat(chunks).toString());
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res, body);
+      res.on("close", () => {
+        transport.close();
+        mcpServer.close();
+      });
+    } else {
+      res.writeHead(404);
+      res.end("Not found");
+    }
+  });
+
+  httpServer.listen(0, "localhost", () => {
+    const addr = httpServer.address();
+    // Write URL to stdout (pipe protocol)
+    process.stdout.write(`http://localhost:${addr.port}/mcp\n`);
+  });
+
+  process.on("SIGTERM", () => {
+    httpServer.close();
+    process.exit(0);
+  });
+}
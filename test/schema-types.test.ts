@@ -0,0 +1,56 @@
+// ABOUTME: Tests for JSON Schema to TypeScript type conversion.
+// ABOUTME: Covers primitives, objects, arrays, unions, and tool type naming.
+
+import { describe, it, expect } from "vitest";
+import { schemaToType, toTypeName } from "../src/schema-types.js";
+
+describe("schemaToType", () => {
+  it("maps primitive types", () => {
+    expect(schemaToType({ type: "string" })).toBe("string");
+    expect(schemaToType({ type: "integer" })).toBe("number");
+    expect(schemaToType({ type: "boolean" })).toBe("boolean");
+    expect(schemaToType({ type: "null" })).toBe("null");
+  });
+
+  it("maps objects with required and optional properties", () => {
+    const type = schemaToType({
+      type: "object",
+      properties: {
+        word: { type: "string", description: "Word to look up" },
+        "max-results": { type: "number" },
+      },
+      required: ["word"],
+    });
+    expect(type).toBe(
+      '{\n  /** Word to look up */\n  word: string;\n  "max-results"?: number;\n}',
+    );
+  });
+
+  it("maps objects without properties to a record", () => {
+    expect(schemaToType({ type: "object" })).toBe("Record<string, unknown>");
+  });
+
+  it("maps arrays, enums and unions", () => {
+    expect(schemaToType({ type: "array", items: { type: "string" } })).toBe("Array<string>");
+    expect(schemaToType({ type: "array" })).toBe("unknown[]");
+    expect(schemaToType({ enum: ["asc", "desc"] })).toBe('"asc" | "desc"');
+    expect(schemaToType({ type: ["string", "null"] })).toBe("string | null");
+    expect(schemaToType({ anyOf: [{ type: "number" }, { const: "auto" }] })).toBe('number | "auto"');
+  });
+
+  it("falls back to unknown", () => {
+    expect(schemaToType(undefined)).toBe("unknown");
+    expect(schemaToType({})).toBe("unknown");
+  });
+});
+
+describe("toTypeName", () => {
+  it("converts tool names to PascalCase", () => {
+    expect(toTypeName("get_word-info")).toBe("GetWordInfo");
+    expect(toTypeName("greet")).toBe("Greet");
+  });
+
+  it("prefixes names that do not start with a letter", () => {
+    expect(toTypeName("3d_render")).toBe("Tool3dRender");
+  });
+});